@@ -0,0 +1,48 @@
+/**
+ * Entries kept between the builds of one plugin instance
+ */
+export interface BuildCache<T> {
+  get(key: string): T | undefined
+  set(key: string, value: T): void
+  /** Evicts the entries the previous build did not use, call it when a build starts */
+  sweep(): void
+  clear(): void
+}
+
+/**
+ * Creates a cache for incremental rebuilds. Memory stays bounded by what one
+ * build uses, so long watch sessions do not accumulate stale entries.
+ */
+export function createBuildCache<T>(): BuildCache<T> {
+  const entries = new Map<string, T>()
+  let used = new Set<string>()
+
+  return {
+    get(key) {
+      const value = entries.get(key)
+      if (value !== undefined) {
+        used.add(key)
+      }
+      return value
+    },
+
+    set(key, value) {
+      entries.set(key, value)
+      used.add(key)
+    },
+
+    sweep() {
+      for (const key of entries.keys()) {
+        if (!used.has(key)) {
+          entries.delete(key)
+        }
+      }
+      used = new Set()
+    },
+
+    clear() {
+      entries.clear()
+      used = new Set()
+    },
+  }
+}
@@ -0,0 +1,122 @@
+import type { Loader } from 'esbuild'
+import { HttpClient, HttpResponse } from './fetch.js'
+import { HttpCacheEntry, HttpCacheStore, MDXLoader, RemoteResolver } from './types.js'
+
+export interface CachedResponse {
+  /** URL the contents came from after following redirects */
+  url: string
+  contents: string
+  contentType?: string
+  loader?: Loader | MDXLoader
+  link?: string
+}
+
+export interface CachedFetchOptions {
+  /** Only serve cached responses, a miss is an error */
+  offline?: boolean
+  /** Current time in milliseconds, for tests */
+  now?: number
+  /** Request headers besides the revalidation ones, such as `Accept` */
+  headers?: Record<string, string>
+}
+
+// Reads the Cache-Control header, undefined means the response must not be stored
+function freshUntil(cacheControl: string | null | undefined, now: number): number | undefined {
+  const directives = (cacheControl ?? '').toLowerCase()
+  if (/(^|,)\s*no-store\b/.test(directives)) {
+    return undefined
+  }
+  const maxAge = directives.match(/(^|,)\s*max-age=(\d+)/)
+  // Without max-age or with no-cache the entry is kept but revalidated on every use
+  return maxAge && !/(^|,)\s*no-cache\b/.test(directives) ? now + Number(maxAge[2]) * 1000 : now
+}
+
+function fromEntry(url: string, entry: HttpCacheEntry): CachedResponse {
+  return { url: entry.redirectedTo ?? url, contents: entry.contents, contentType: entry.contentType, loader: entry.loader, link: entry.link }
+}
+
+// Serves entries that are fresh, or any entry when offline
+async function fromStore(url: string, store: HttpCacheStore | undefined, options: CachedFetchOptions): Promise<HttpCacheEntry | undefined> {
+  const cached = await store?.get(url)
+  if (options.offline && !cached) {
+    throw new Error(`${url} is not in the cache, cannot load it in offline mode`)
+  }
+  return cached
+}
+
+/**
+ * Fetches a URL as text through a persistent cache. Fresh entries are served
+ * without a request, stale ones are revalidated with their ETag or Last-Modified date.
+ */
+export async function fetchCached(
+  httpClient: HttpClient,
+  url: string,
+  store: HttpCacheStore | undefined,
+  options: CachedFetchOptions = {},
+): Promise<CachedResponse> {
+  const now = options.now ?? Date.now()
+  const cached = await fromStore(url, store, options)
+  if (cached && (cached.freshUntil > now || options.offline)) {
+    return fromEntry(url, cached)
+  }
+
+  const validators: Record<string, string> = { ...options.headers }
+  if (cached?.etag) validators['If-None-Match'] = cached.etag
+  if (cached?.lastModified) validators['If-Modified-Since'] = cached.lastModified
+  const response: HttpResponse = await httpClient(url, validators)
+
+  if (cached && response.status === 304) {
+    const until = freshUntil(response.header('cache-control'), now)
+    if (until !== undefined) {
+      await store?.set(url, { ...cached, freshUntil: until })
+    }
+    return fromEntry(url, cached)
+  }
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  const entry: HttpCacheEntry = {
+    contents: response.text,
+    contentType: response.header('content-type'),
+    redirectedTo: response.url && response.url !== url ? response.url : undefined,
+    link: response.header('link'),
+    etag: response.header('etag'),
+    lastModified: response.header('last-modified'),
+    freshUntil: now,
+  }
+  const until = freshUntil(response.header('cache-control'), now)
+  if (store && until !== undefined) {
+    await store.set(url, { ...entry, freshUntil: until })
+  }
+  return fromEntry(url, entry)
+}
+
+/**
+ * Loads a URI with a custom resolver through the same persistent cache as HTTP imports.
+ * Entries stay fresh for the `maxAge` the resolver returns and are otherwise only used offline.
+ */
+export async function resolveCached(
+  resolve: RemoteResolver,
+  uri: string,
+  store: HttpCacheStore | undefined,
+  options: CachedFetchOptions = {},
+): Promise<CachedResponse> {
+  const now = options.now ?? Date.now()
+  const cached = await fromStore(uri, store, options)
+  if (cached && (cached.freshUntil > now || options.offline)) {
+    return fromEntry(uri, cached)
+  }
+
+  const resolved = await resolve(uri)
+  const { contents, url, contentType, loader, maxAge } = typeof resolved === 'string' ? { contents: resolved } : resolved
+  const entry: HttpCacheEntry = {
+    contents,
+    contentType,
+    loader,
+    redirectedTo: url && url !== uri ? url : undefined,
+    freshUntil: now + (maxAge ?? 0) * 1000,
+  }
+  await store?.set(uri, entry)
+  return fromEntry(uri, entry)
+}
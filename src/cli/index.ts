@@ -0,0 +1,147 @@
+/// <reference types="node" />
+
+import * as esbuild from 'esbuild'
+import { promises as fsPromises } from 'fs'
+import { parseArgs } from 'util'
+import { includeDocumentFiles, parseDocument } from '../core.js'
+import { FrontmatterSyntaxError } from '../frontmatter.js'
+import { YamlSyntaxError } from '../yamlld.js'
+import { mdxld } from '../index.js'
+import { KeywordStyle, MDXLDOptions } from '../types.js'
+
+const USAGE = `Usage:
+  esbuild-mdxld build <entries...> [--outdir <dir>] [--watch] [--external <module>] [--keyword-style <style>] [--cache-dir <dir>]
+                      [--offline] [--lockfile <file>] [--update-lock] [--declarations] [--declarations-file <file>]
+  esbuild-mdxld inspect <file.mdx> [--keyword-style <style>]
+
+Options:
+  --outdir <dir>           Output directory for build (default: dist)
+  --watch                  Rebuild when sources change
+  --external <module>      Leave a module out of the bundle, may be repeated (default: react and react/jsx-runtime)
+  --keyword-style <style>  Spell JSON-LD keywords in the frontmatter with at (@), dollar ($) or preserve them
+  --prefer-dollar-prefix   Same as --keyword-style dollar
+  --cache-dir <dir>        Keep HTTP imports in a persistent cache
+  --offline                Load HTTP imports from the cache only
+  --lockfile <file>        Pin HTTP imports by hash and fail when they change (default: mdxld.lock.json if it exists)
+  --update-lock            Rewrite the lockfile (default file: mdxld.lock.json)
+  --declarations           Write a .d.ts file typing the frontmatter next to each document
+  --declarations-file <f>  Write one ambient declaration file for all documents instead
+  -h, --help               Show this message`
+
+const KEYWORD_STYLES: KeywordStyle[] = ['at', 'dollar', 'preserve']
+const DEFAULT_LOCKFILE = 'mdxld.lock.json'
+const DEFAULT_EXTERNAL = ['react', 'react/jsx-runtime']
+
+async function build(entries: string[], outdir: string, watch: boolean, external: string[], pluginOptions: MDXLDOptions): Promise<void> {
+  // Bundling is what sends imports of the entries through the plugin, for HTTP imports, collections and data files
+  const buildOptions: esbuild.BuildOptions = {
+    entryPoints: entries,
+    outdir,
+    bundle: true,
+    external,
+    format: 'esm',
+    logLevel: 'info',
+    plugins: [mdxld(pluginOptions)],
+  }
+
+  if (watch) {
+    const context = await esbuild.context(buildOptions)
+    await context.watch()
+    return
+  }
+
+  await esbuild.build(buildOptions)
+}
+
+// Pins written by --update-lock are checked by every later build, without repeating --lockfile
+async function defaultLockfile(updateLock: boolean): Promise<string | undefined> {
+  if (updateLock) {
+    return DEFAULT_LOCKFILE
+  }
+  try {
+    await fsPromises.access(DEFAULT_LOCKFILE)
+    return DEFAULT_LOCKFILE
+  } catch {
+    return undefined
+  }
+}
+
+async function inspect(file: string, options: MDXLDOptions): Promise<void> {
+  const contents = await fsPromises.readFile(file, 'utf8')
+  let document
+  try {
+    document = parseDocument(contents, options)
+  } catch (error) {
+    if (error instanceof YamlSyntaxError || error instanceof FrontmatterSyntaxError) {
+      // Same file:line:column form esbuild uses, so editors can jump to it
+      throw new Error(`${file}:${error.line}:${error.column}: ${error.message}`)
+    }
+    throw error
+  }
+  const { frontmatter } = (await includeDocumentFiles(document, file, (path) => fsPromises.readFile(path, 'utf8'), options)).document
+  console.log(JSON.stringify(frontmatter, null, 2))
+}
+
+/**
+ * Runs the esbuild-mdxld command line interface
+ */
+export async function cli(argv: string[] = process.argv.slice(2)): Promise<void> {
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        outdir: { type: 'string', default: 'dist' },
+        watch: { type: 'boolean', default: false },
+        external: { type: 'string', multiple: true },
+        'keyword-style': { type: 'string' },
+        'prefer-dollar-prefix': { type: 'boolean', default: false },
+        'cache-dir': { type: 'string' },
+        offline: { type: 'boolean', default: false },
+        lockfile: { type: 'string' },
+        'update-lock': { type: 'boolean', default: false },
+        declarations: { type: 'boolean', default: false },
+        'declarations-file': { type: 'string' },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    })
+    const [command, ...args] = positionals
+    const keywordStyle = values['keyword-style']
+    if (keywordStyle !== undefined && !KEYWORD_STYLES.includes(keywordStyle as KeywordStyle)) {
+      throw new Error(`--keyword-style must be one of ${KEYWORD_STYLES.join(', ')}`)
+    }
+    const keywordOptions = { keywordStyle: keywordStyle as KeywordStyle | undefined, preferDollarPrefix: values['prefer-dollar-prefix'] ?? false }
+
+    if (values.help) {
+      console.log(USAGE)
+      return
+    }
+
+    if (command === 'build' && args.length > 0) {
+      const updateLock = values['update-lock'] ?? false
+      await build(args, values.outdir ?? 'dist', values.watch ?? false, values.external ?? DEFAULT_EXTERNAL, {
+        ...keywordOptions,
+        cacheDir: values['cache-dir'],
+        offline: values.offline,
+        lockfile: values.lockfile ?? (await defaultLockfile(updateLock)),
+        updateLock,
+        declarations: values['declarations-file'] ?? values.declarations,
+      })
+      return
+    }
+
+    if (command === 'inspect' && args.length === 1) {
+      await inspect(args[0], keywordOptions)
+      return
+    }
+
+    console.error(USAGE)
+    process.exitCode = 1
+  } catch (error) {
+    // esbuild has already printed its own diagnostics for failed builds
+    if (!(error instanceof Error && 'errors' in error)) {
+      console.error(error instanceof Error ? error.message : error)
+    }
+    process.exitCode = 1
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * A `mdxld:collection?glob=…` import, e.g. `mdxld:collection?glob=content/blog/*.mdx&sort=-datePublished&draft=false`
+ */
+export interface CollectionQuery {
+  /** Pattern of the documents, relative to the project directory */
+  glob: string
+  /** Fields to sort by, in order of precedence */
+  sort: { field: string; descending: boolean }[]
+  /** Fields that must equal, or for arrays contain, a value */
+  filters: [field: string, value: string][]
+  limit?: number
+}
+
+export interface CollectionEntry {
+  /** Path relative to the static part of the glob, without extension, e.g. `2024/hello` */
+  slug: string
+  /** Path relative to the project directory */
+  path: string
+  /** Absolute path, for the lazy import */
+  file: string
+  frontmatter: Record<string, unknown>
+  jsonld: Record<string, unknown>
+}
+
+export const COLLECTION_PREFIX = 'mdxld:collection'
+
+/**
+ * Reads the glob, sort, limit and field filters of a collection import
+ */
+export function parseCollectionQuery(specifier: string): CollectionQuery {
+  const params = new URLSearchParams(specifier.slice(COLLECTION_PREFIX.length).replace(/^\?/, ''))
+  const glob = params.get('glob')?.replace(/^\.\//, '')
+  if (!glob) {
+    throw new Error(`${specifier} has no glob parameter, import e.g. ${COLLECTION_PREFIX}?glob=content/*.mdx`)
+  }
+
+  const limit = params.get('limit')
+  if (limit !== null && !/^\d+$/.test(limit)) {
+    throw new Error(`The limit of ${specifier} must be a whole number`)
+  }
+
+  return {
+    glob,
+    sort: (params.get('sort') ?? '')
+      .split(',')
+      .filter(Boolean)
+      .map((field) => ({ field: field.replace(/^-/, ''), descending: field.startsWith('-') })),
+    filters: [...params.entries()].filter(([key]) => !['glob', 'sort', 'limit'].includes(key)),
+    limit: limit === null ? undefined : Number(limit),
+  }
+}
+
+/**
+ * Directory part of a glob before its first wildcard
+ */
+export function globBase(glob: string): string {
+  const segments = glob.split('/')
+  const wildcard = segments.findIndex((segment) => /[*?[\]{}]/.test(segment))
+  return segments.slice(0, wildcard === -1 ? segments.length - 1 : wildcard).join('/')
+}
+
+// Dotted paths reach into nested nodes, and `@type` also finds `$type` and the other way around
+function fieldValue(frontmatter: Record<string, unknown>, field: string): unknown {
+  return field.split('.').reduce<unknown>((node, key) => {
+    if (typeof node !== 'object' || node === null) {
+      return undefined
+    }
+    const record = node as Record<string, unknown>
+    const alternate = /^[@$]/.test(key) ? `${key.startsWith('@') ? '$' : '@'}${key.slice(1)}` : key
+    return record[key] ?? record[alternate]
+  }, frontmatter)
+}
+
+function matches(value: unknown, expected: string): boolean {
+  return Array.isArray(value) ? value.some((item) => matches(item, expected)) : !isMissing(value) && String(value) === expected
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null
+}
+
+function compare(a: unknown, b: unknown): number {
+  return typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(String(b))
+}
+
+/**
+ * Filters, sorts and limits entries as the query asks, by path when it does not sort
+ */
+export function selectEntries(entries: CollectionEntry[], query: CollectionQuery): CollectionEntry[] {
+  const selected = entries
+    .filter((entry) => query.filters.every(([field, value]) => matches(fieldValue(entry.frontmatter, field), value)))
+    .sort((a, b) => {
+      for (const { field, descending } of query.sort) {
+        const left = fieldValue(a.frontmatter, field)
+        const right = fieldValue(b.frontmatter, field)
+        // Missing values sort last in either direction
+        const order = isMissing(left) || isMissing(right) ? Number(isMissing(left)) - Number(isMissing(right)) : compare(left, right) * (descending ? -1 : 1)
+        if (order !== 0) {
+          return order
+        }
+      }
+      return a.path.localeCompare(b.path)
+    })
+  return query.limit === undefined ? selected : selected.slice(0, query.limit)
+}
+
+/**
+ * Generates the module exporting the entries, each with a `load` function importing its component
+ */
+export function collectionModule(entries: CollectionEntry[]): string {
+  const items = entries.map((entry) =>
+    [
+      '  {',
+      `    slug: ${JSON.stringify(entry.slug)},`,
+      `    path: ${JSON.stringify(entry.path)},`,
+      `    frontmatter: ${JSON.stringify(entry.frontmatter)},`,
+      `    jsonld: ${JSON.stringify(entry.jsonld)},`,
+      `    load: () => import(${JSON.stringify(entry.file)}),`,
+      '  },',
+    ].join('\n'),
+  )
+  return `export default [\n${items.join('\n')}${items.length > 0 ? '\n' : ''}]\n`
+}
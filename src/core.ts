@@ -0,0 +1,945 @@
+/// <reference lib="dom" />
+/// <reference lib="dom.iterable" />
+
+import { Loader, Message, PartialMessage, Plugin, PluginBuild } from 'esbuild'
+import { compile, CompileOptions, createProcessor } from '@mdx-js/mdx'
+import { fetchCached, resolveCached } from './cache.js'
+import { createBuildCache } from './build-cache.js'
+import { COLLECTION_PREFIX, CollectionEntry, collectionModule, CollectionQuery, globBase, parseCollectionQuery, selectEntries } from './collection.js'
+import { DATA_FILE, DataFile, IncludedData, IncludeError, parseDataFile, resolveIncludes } from './data-files.js'
+import { createTypeInference } from './declarations.js'
+import { createHttpClient, isHostAllowed } from './fetch.js'
+import { findFrontmatter, FrontmatterSyntaxError, normalizeLineEndings, parseFrontmatter, toJsonData } from './frontmatter.js'
+import { collectNodes, GraphNode, linkReferences } from './graph.js'
+import { keywordConflicts, normalizeKeywords } from './keywords.js'
+import { createDocumentLoader, DocumentLoader, fetchContextDocument, resolveJsonLd } from './jsonld.js'
+import { dirname, joinPath, normalizePath } from './paths.js'
+import { createGraphFiles } from './rdf.js'
+import { remarkYamlLd } from './remark.js'
+import { countWords, readingTime, renderTemplates, TemplateError, TemplateVariables } from './templates.js'
+import { createValidator, locateYamlPath, ValidationIssue } from './validate.js'
+import { YamlSyntaxError } from './yamlld.js'
+import {
+  MDXLoader,
+  VirtualFile,
+  LoadArgs,
+  MDXOnLoadResult,
+  MDXLDOptions,
+  JsonLdContextDocument,
+  ComputedContext,
+  KeywordStyle,
+  PluginStorage,
+  ParsedDocument,
+  ReadFile,
+  ResolveArgs,
+  OnResolveResult,
+} from './types.js'
+
+// Use native fetch in Node.js 18+ environments
+const fetchImpl = globalThis.fetch.bind(globalThis)
+
+// `preferDollarPrefix` predates `keywordStyle` and stands for its `dollar` style
+function frontmatterStyle(options?: MDXLDOptions): KeywordStyle {
+  return options?.keywordStyle ?? (options?.preferDollarPrefix ? 'dollar' : 'preserve')
+}
+
+// The `layout` key configures the plugin and is no linked data, so it stays in `frontmatter` only
+function toJsonLd(data: Record<string, unknown>): Record<string, unknown> {
+  const { layout, ...linkedData } = data
+  return normalizeKeywords(typeof layout === 'string' || layout === false ? linkedData : data, 'at')
+}
+
+function formatJsonString(obj: Record<string, unknown>): string {
+  function replacer(_: string, value: unknown): unknown {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return Object.fromEntries(Object.entries(value as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b)))
+    }
+    return value
+  }
+
+  const jsonString = JSON.stringify(obj, replacer, 2)
+    .replace(/":"/g, '": "')
+    .replace(/":\[/g, '": [')
+    .replace(/":{/g, '": {')
+    .replace(/":(\d+)/g, '": $1')
+    .replace(/,\n\s+"/g, ', "')
+    .replace(/\[\n\s+"/g, '["')
+    .replace(/"\n\s+\]/g, '"]')
+    .replace(/\[(.*?)\]/g, (match, contents) => (contents.includes('{') ? match : match.replace(/",\s+"/g, '", "')))
+
+  return jsonString
+}
+
+function convertVirtualFileToMDXResult(virtualFile: VirtualFile & { loader: Loader }): MDXOnLoadResult {
+  return {
+    contents: typeof virtualFile.contents === 'string' ? virtualFile.contents : formatJsonString(virtualFile.contents),
+    loader: virtualFile.loader,
+    watchFiles: virtualFile.watchFiles,
+    errors: virtualFile.errors,
+  }
+}
+
+function createCompileOptions(processedYaml: Record<string, unknown>, options?: MDXLDOptions): CompileOptions {
+  return {
+    remarkPlugins: [[remarkYamlLd, { data: processedYaml }], ...(options?.remarkPlugins ?? [])],
+    rehypePlugins: options?.rehypePlugins,
+    development: options?.development,
+    jsx: options?.jsx,
+    jsxImportSource: options?.jsxImportSource,
+    jsxRuntime: options?.jsxRuntime,
+    pragma: options?.pragma,
+    pragmaFrag: options?.pragmaFrag,
+    pragmaImportSource: options?.pragmaImportSource,
+    providerImportSource: options?.providerImportSource,
+  }
+}
+
+function compileErrorToMessage(error: unknown, filePath: string): Message {
+  const place = typeof error === 'object' && error !== null && 'place' in error ? (error as { place?: unknown }).place : undefined
+  const start = (place && typeof place === 'object' && 'start' in place ? place.start : place) as { line: number; column: number } | undefined
+
+  return {
+    id: '',
+    pluginName: 'mdxld',
+    text: error instanceof Error ? error.message : 'Failed to compile MDX',
+    location: start ? { file: filePath, namespace: 'file', line: start.line, column: start.column - 1, length: 0, lineText: '', suggestion: '' } : null,
+    notes: [],
+    detail: error,
+  }
+}
+
+function documentTypes(data: Record<string, unknown>): string[] {
+  return [data['@type'] ?? data.$type].flat().filter((type): type is string => typeof type === 'string')
+}
+
+// Module-scope names of compiled documents. MDX also defines helpers starting with `_`, such as `_createMdxContent` and `_jsx`,
+// and renders the body in a function whose `props` parameter would hide an alias of that name.
+const RESERVED_NAMES = [
+  'props',
+  'frontmatter',
+  'jsonld',
+  'jsonldExpanded',
+  'jsonldCompacted',
+  'jsonLdScript',
+  'JsonLd',
+  'MDXContent',
+  'MDXLayout',
+  'MDXLDLayout',
+]
+
+// Words a module, which is strict code, cannot declare a const with
+const RESERVED_WORDS = new Set(
+  [
+    'await break case catch class const continue debugger default delete do else enum export extends false finally for function',
+    'if implements import in instanceof interface let new null package private protected public return static super switch this',
+    'throw true try typeof var void while with yield arguments eval',
+  ]
+    .join(' ')
+    .split(' '),
+)
+
+function isFreeName(name: string): boolean {
+  return /^[A-Za-z$][\w$]*$/.test(name) && !RESERVED_WORDS.has(name) && !RESERVED_NAMES.includes(name)
+}
+
+// Remote documents cannot include files, there is no directory to read them from
+const remoteInclude: ReadFile = async () => {
+  throw new Error('Remote documents cannot include other files')
+}
+
+// Messages pushed onto a build result in onEnd must be complete
+function pluginMessage(text: string): Message {
+  return { id: '', pluginName: 'mdxld', text, location: null, notes: [], detail: undefined }
+}
+
+// Blank out the frontmatter instead of removing it so compiler positions still match the source file
+function stripFrontmatter(contents: string, frontmatter: string): string {
+  return '\n'.repeat(frontmatter.split('\n').length - 1) + contents.slice(frontmatter.length)
+}
+
+/**
+ * Splits a document into its parsed YAML-LD, TOML or JSON frontmatter and MDX body
+ */
+export function parseDocument(source: string, options?: MDXLDOptions): ParsedDocument {
+  const contents = normalizeLineEndings(source)
+  const block = findFrontmatter(contents)
+  if (!block || !block.source.trim()) {
+    return {
+      data: {},
+      frontmatter: {},
+      format: block?.format ?? 'yaml',
+      source: '',
+      body: block ? stripFrontmatter(contents, block.block) : contents,
+    }
+  }
+
+  // The frontmatter source starts on the line after the opening fence
+  const data = parseFrontmatter(block.format, block.source, 1)
+  return {
+    data,
+    frontmatter: normalizeKeywords(data, frontmatterStyle(options)),
+    format: block.format,
+    source: block.source,
+    body: stripFrontmatter(contents, block.block),
+  }
+}
+
+/**
+ * Replaces the `!include` tags in a document's frontmatter with the data of the files they name
+ */
+export async function includeDocumentFiles(
+  document: ParsedDocument,
+  filePath: string,
+  readFile: ReadFile,
+  options?: MDXLDOptions,
+): Promise<{ document: ParsedDocument; files: Record<string, string> }> {
+  const included = await resolveIncludes(document.data, filePath, readFile)
+  if (Object.keys(included.files).length === 0) {
+    return { document, files: {} }
+  }
+  return { document: { ...document, data: included.data, frontmatter: normalizeKeywords(included.data, frontmatterStyle(options)) }, files: included.files }
+}
+
+// Escape `<` so the JSON can never close the surrounding script element
+function serializeJsonLd(data: Record<string, unknown>): string {
+  return JSON.stringify(toJsonLd(data)).replace(/</g, '\\u003c')
+}
+
+// Puts blocks at the top of the body, each followed by a blank line. Reuses the blank lines left by
+// the frontmatter so the body keeps its original line numbers, unless the frontmatter was too short.
+function injectBlocks(body: string, blocks: string[]): string {
+  const blankLines = body.match(/^\n*/)?.[0].length ?? 0
+  const size = blocks.length * 2 - 1
+  return `${blocks.join('\n\n')}${'\n'.repeat(Math.max(blankLines, size + 1) - size + 1)}${body.slice(blankLines)}`
+}
+
+function jsonLdDeclaration(json: string): string {
+  return `export function JsonLd() { return <script type='application/ld+json' dangerouslySetInnerHTML={{ __html: ${JSON.stringify(json)} }} /> }`
+}
+
+// A default export among the document's ESM is its own layout. Parsed rather than matched, so an
+// `export default` in a code block or in prose does not count.
+function hasOwnLayout(body: string): boolean {
+  if (!/\bexport\b/.test(body)) {
+    return false
+  }
+  let tree
+  try {
+    tree = createProcessor().parse(body)
+  } catch {
+    // Invalid MDX fails to compile with its own error
+    return false
+  }
+  return tree.children.some(
+    (node) =>
+      node.type === 'mdxjsEsm' &&
+      node.data?.estree?.body.some(
+        (statement) =>
+          statement.type === 'ExportDefaultDeclaration' ||
+          (statement.type === 'ExportNamedDeclaration' &&
+            statement.specifiers.some(({ exported }) => (exported.type === 'Identifier' ? exported.name : exported.value) === 'default')),
+      ),
+  )
+}
+
+// MDX renders the content inside a default export, and the exports appended after compiling are
+// defined by the time it renders
+function layoutDeclaration(layout: string): string {
+  return `import MDXLDLayout from ${JSON.stringify(layout)}; export default (props) => <MDXLDLayout {...props} frontmatter={frontmatter} jsonld={jsonld} />`
+}
+
+async function compileDocument(
+  document: ParsedDocument,
+  filePath: string,
+  documentLoader: DocumentLoader,
+  options?: MDXLDOptions,
+  layout?: string,
+): Promise<MDXOnLoadResult> {
+  const compileOptions = createCompileOptions(document.frontmatter, options)
+  const jsonLd = toJsonLd(document.data)
+  const hasJsonLd = Object.keys(jsonLd).length > 0
+  const json = serializeJsonLd(document.data)
+  // Plain Markdown has no ESM or JSX to inject
+  const injectJsonLd = options?.injectJsonLd && hasJsonLd && !filePath.endsWith('.md')
+  const declarations = [injectJsonLd ? jsonLdDeclaration(json) : '', layout && !filePath.endsWith('.md') ? layoutDeclaration(layout) : ''].filter(Boolean)
+  const blocks = declarations.length > 0 ? [declarations.join(' '), ...(injectJsonLd ? ['<JsonLd />'] : [])] : []
+  const body = blocks.length > 0 ? injectBlocks(document.body, blocks) : document.body
+
+  try {
+    const compiled = await compile({ path: filePath, value: body }, compileOptions)
+    const exports = [`export const frontmatter = ${formatJsonString(document.frontmatter)}`, `export const jsonld = ${formatJsonString(jsonLd)}`]
+    if (options?.frontmatterAlias) {
+      exports.push(`export const ${options.frontmatterAlias} = frontmatter`)
+    }
+    if (options?.resolveContexts) {
+      try {
+        const { expanded, compacted } = await resolveJsonLd(jsonLd, documentLoader)
+        exports.push(`export const jsonldExpanded = ${JSON.stringify(expanded, null, 2)}`, `export const jsonldCompacted = ${formatJsonString(compacted)}`)
+      } catch (error) {
+        return {
+          errors: [{ text: `Failed to resolve JSON-LD context: ${error instanceof Error ? error.message : String(error)}` }],
+          watchFiles: [filePath],
+        }
+      }
+    }
+    if (options?.jsonLdScript) {
+      exports.push(`export const jsonLdScript = ${JSON.stringify(hasJsonLd ? `<script type="application/ld+json">${json}</script>` : '')}`)
+    }
+
+    return {
+      contents: `${String(compiled.value)}\n${exports.join('\n')}\n`,
+      loader: compileOptions.jsx ? 'jsx' : 'js',
+      resolveDir: dirname(filePath),
+      watchFiles: [filePath],
+    }
+  } catch (error) {
+    return {
+      errors: [compileErrorToMessage(error, filePath)],
+      watchFiles: [filePath],
+    }
+  }
+}
+
+// Frontmatter starts on the line after the opening fence, data files on their first line. Paths are
+// only located in YAML, issues in TOML and JSON point at the first line of the document.
+function validationMessages(issues: ValidationIssue[], document: ParsedDocument, filePath: string, lineOffset = 1): PartialMessage[] {
+  return issues.map((issue) => {
+    const location = document.format === 'yaml' ? locateYamlPath(document.source, issue.path) : undefined
+    return {
+      text: issue.text,
+      location: location
+        ? { file: filePath, line: location.line + lineOffset, column: location.column, lineText: location.lineText }
+        : { file: filePath, line: 1 },
+    }
+  })
+}
+
+// Includes and templates fail at the path of the value that could not be resolved
+function preparationErrorMessage(error: unknown, document: ParsedDocument, filePath: string, lineOffset = 1): PartialMessage {
+  if (error instanceof IncludeError || error instanceof TemplateError) {
+    return validationMessages([{ path: error.path, text: error.message }], document, filePath, lineOffset)[0]
+  }
+  return { text: error instanceof Error ? error.message : String(error), location: { file: filePath, line: 1 } }
+}
+
+function frontmatterErrorMessage(error: unknown, filePath: string): PartialMessage {
+  if (error instanceof FrontmatterSyntaxError) {
+    return {
+      text: `Invalid ${error.format} syntax: ${error.message}`,
+      location: { file: filePath, line: error.line, column: error.column, lineText: error.lineText },
+    }
+  }
+  if (error instanceof YamlSyntaxError) {
+    return {
+      text: `Invalid YAML syntax: ${error.message}`,
+      location: { file: filePath, line: error.line, column: error.column, lineText: error.lineText },
+    }
+  }
+  return { text: `Invalid YAML syntax: ${error instanceof Error ? error.message : String(error)}`, location: { file: filePath, line: 1 } }
+}
+
+// Loaders by file extension and by Content-Type for modules imported over HTTP
+const remoteLoaders: Record<string, Loader | MDXLoader> = {
+  '.js': 'js',
+  '.mjs': 'js',
+  '.cjs': 'js',
+  '.jsx': 'jsx',
+  '.ts': 'ts',
+  '.mts': 'ts',
+  '.cts': 'ts',
+  '.tsx': 'tsx',
+  '.json': 'json',
+  '.md': 'mdx',
+  '.mdx': 'mdx',
+  'application/javascript': 'js',
+  'text/javascript': 'js',
+  'text/jsx': 'jsx',
+  'application/typescript': 'ts',
+  'text/typescript': 'ts',
+  'text/tsx': 'tsx',
+  'application/json': 'json',
+  'application/ld+json': 'json',
+  'text/markdown': 'mdx',
+  'text/x-markdown': 'mdx',
+  'text/mdx': 'mdx',
+}
+
+// The extension wins since many servers send JavaScript and MDX as text/plain
+function remoteLoader(url: string, contentType: string | undefined): Loader | MDXLoader {
+  const path = url.replace(/[?#].*$/, '')
+  const extension = path.match(/\.[^./]+$/)?.[0].toLowerCase()
+  const mediaType = contentType?.split(';')[0].trim().toLowerCase()
+  return (extension && remoteLoaders[extension]) || (mediaType && remoteLoaders[mediaType]) || 'js'
+}
+
+// Custom schemes like `github:org/repo/a.mdx` have no hierarchy for URL to resolve against,
+// so their path is resolved POSIX-style after the scheme
+function resolveUri(specifier: string, base: string): string {
+  try {
+    return new URL(specifier, base).toString()
+  } catch {
+    const [, scheme, path] = base.match(/^([a-z][a-z\d+.-]*:)(.*)$/i) ?? ['', '', base]
+    return `${scheme}${specifier.startsWith('/') ? normalizePath(specifier.slice(1)) : joinPath(dirname(path), specifier)}`
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Data attached to remote modules so their imports resolve against the URL they were loaded from
+ */
+interface RemoteModuleData {
+  url: string
+}
+
+// A compiled document and the source it was compiled from
+interface CompiledDocument {
+  source: string
+  result: MDXOnLoadResult
+  /** Linked data of the document for the emitted graph */
+  jsonld?: Record<string, unknown>
+  /** Contents of the files its frontmatter includes, keyed by path */
+  included?: Record<string, string>
+  /** Inferred frontmatter type, declared again when the result is reused */
+  frontmatterType?: string
+}
+
+export const createPlugin = (readFile: ReadFile, options?: MDXLDOptions, storage: PluginStorage = {}): Plugin => ({
+  name: 'mdxld',
+  setup(build: PluginBuild) {
+    // Remote modules and contexts, keyed by URL, and compiled documents, keyed by path.
+    // Each plugin instance has its own, so builds with different options never share them.
+    const virtualFs = createBuildCache<VirtualFile>()
+    const compiled = createBuildCache<CompiledDocument>()
+    build.onStart(() => {
+      virtualFs.sweep()
+      compiled.sweep()
+    })
+    build.onDispose(() => {
+      virtualFs.clear()
+      compiled.clear()
+    })
+
+    const httpClient = createHttpClient(fetchImpl, options?.http)
+
+    async function fetchContext(url: string): Promise<JsonLdContextDocument> {
+      const cachedFile = virtualFs.get(url)
+      if (cachedFile && typeof cachedFile.contents !== 'string') {
+        return cachedFile.contents
+      }
+
+      const document = await fetchContextDocument(httpClient, url, storage.httpCache, { offline: options?.offline })
+      virtualFs.set(url, { contents: document, loader: 'json' })
+      return document
+    }
+
+    const documentLoader = createDocumentLoader(options?.contexts ?? {}, options?.fetchContexts === false ? undefined : fetchContext)
+    const validate = options?.schemas ? createValidator(options.schemas) : undefined
+    // Bare imports in remote modules resolve from the project, like imports in local files
+    const projectDir = build.initialOptions.absWorkingDir ?? globalThis.process?.cwd?.()
+
+    // The alias sits in the module scope of every document, next to the names the plugin and MDX define there
+    const alias = options?.frontmatterAlias
+    if (alias !== undefined && !isFreeName(alias)) {
+      const text = `frontmatterAlias must be an identifier that is not a reserved word, does not start with _ and is not one of ${RESERVED_NAMES.join(', ')}, got "${alias}"`
+      build.onStart(() => ({ errors: [{ text }] }))
+    }
+
+    const declarations = storage.declarations
+    const inferType = createTypeInference(options?.schemas)
+    if (declarations) {
+      build.onStart(() => declarations.start())
+      build.onEnd(() => declarations.flush())
+    }
+
+    async function declareDocument(filePath: string, frontmatterType: string): Promise<PartialMessage[]> {
+      try {
+        await declarations?.write(filePath, frontmatterType)
+        return []
+      } catch (error) {
+        return [{ text: `Failed to write declarations for ${filePath}`, notes: [{ text: error instanceof Error ? error.message : String(error) }] }]
+      }
+    }
+
+    // Modules in the layouts option are relative to the project, `layout:` paths to the document
+    const layouts = Object.fromEntries(
+      Object.entries(options?.layouts ?? {}).map(([key, module]) => [key, module.startsWith('.') && projectDir ? joinPath(projectDir, module) : module]),
+    )
+
+    function layoutFor(document: ParsedDocument): string | undefined {
+      // `layout: false` opts out, and a document with its own default export keeps it
+      const { layout } = document.data
+      const selected =
+        layout === false
+          ? undefined
+          : typeof layout === 'string'
+            ? (layouts[layout] ?? layout)
+            : documentTypes(document.data)
+                .map((type) => layouts[type])
+                .find(Boolean)
+      return selected && !hasOwnLayout(document.body) ? selected : undefined
+    }
+
+    // Plain Markdown has no ESM to render a layout with, which would otherwise go unnoticed
+    function markdownLayoutWarning(document: ParsedDocument, filePath: string, layout: string): PartialMessage[] {
+      const path = typeof document.data.layout === 'string' ? 'layout' : '@type' in document.data ? '@type' : '$type'
+      return validationMessages([{ path: [path], text: `Layouts only apply to MDX, ${filePath} is rendered without ${layout}` }], document, filePath)
+    }
+
+    function computedContext(document: ParsedDocument, filePath: string, local: boolean): ComputedContext {
+      const wordCount = countWords(document.body)
+      return {
+        path: filePath,
+        slug: filePath.replace(/^.*[\\/]/, '').replace(/\.[^.]*$/, ''),
+        body: document.body,
+        wordCount,
+        timeRequired: readingTime(wordCount),
+        dateModified: async () => (local ? storage.fileModified?.(filePath) : undefined),
+      }
+    }
+
+    // Placeholders name the document's own fields first, then the variables of the templates option,
+    // then facts about the file, and `env.NAME` reads environment variables
+    function templateVariables(data: Record<string, unknown>, context: ComputedContext): TemplateVariables {
+      const { slug, path, wordCount, timeRequired, dateModified } = context
+      const sources: Record<string, unknown>[] = [
+        data,
+        typeof options?.templates === 'object' ? options.templates : {},
+        { slug, path, wordCount, timeRequired },
+      ]
+      return async (name) => {
+        const [root, ...keys] = name.split('.')
+        if (root === 'env') {
+          return globalThis.process?.env?.[keys.join('.')]
+        }
+        const value =
+          root === 'dateModified' && !sources.some((source) => root in source) ? await dateModified() : sources.find((source) => root in source)?.[root]
+        return keys.reduce<unknown>((node, key) => (typeof node === 'object' && node !== null ? (node as Record<string, unknown>)[key] : undefined), value)
+      }
+    }
+
+    // Includes come first so templates can read included data, and computed functions see rendered frontmatter.
+    // Remote documents have no directory to include from.
+    async function prepareDocument(
+      parsed: ParsedDocument,
+      filePath: string,
+      local: boolean,
+    ): Promise<{ document: ParsedDocument; files: Record<string, string> }> {
+      const { document, files } = await includeDocumentFiles(parsed, filePath, local ? readFile : remoteInclude, options)
+      if (!options?.templates && !options?.computed) {
+        return { document, files }
+      }
+
+      const context = computedContext(document, filePath, local)
+      let data = options.templates ? await renderTemplates(document.data, templateVariables(document.data, context)) : document.data
+      for (const type of ['*', ...documentTypes(data)]) {
+        const compute = options.computed?.[type]
+        if (!compute) continue
+        try {
+          data = { ...data, ...(await compute(normalizeKeywords(data, frontmatterStyle(options)), context)) }
+        } catch (error) {
+          throw new Error(`Computed fields for ${type} failed: ${error instanceof Error ? error.message : String(error)}`)
+        }
+      }
+      return { document: { ...document, data, frontmatter: normalizeKeywords(data, frontmatterStyle(options)) }, files }
+    }
+
+    async function includesUnchanged(files: Record<string, string> = {}): Promise<boolean> {
+      for (const [file, contents] of Object.entries(files)) {
+        if ((await readFile(file).catch(() => undefined)) !== contents) {
+          return false
+        }
+      }
+      return true
+    }
+
+    // Rebuilds reuse the result for a document whose source and included files did not change.
+    // Only local documents get declarations, remote ones have no file to sit next to.
+    async function loadDocument(contents: string, filePath: string, local = false): Promise<MDXOnLoadResult> {
+      const previous = compiled.get(filePath)
+      if (previous?.source === contents && (await includesUnchanged(previous.included))) {
+        if (previous.jsonld) {
+          graphDocuments.set(filePath, previous.jsonld)
+        }
+        const declarationWarnings = previous.frontmatterType === undefined ? [] : await declareDocument(filePath, previous.frontmatterType)
+        return declarationWarnings.length > 0
+          ? { ...previous.result, warnings: [...(previous.result.warnings ?? []), ...declarationWarnings] }
+          : previous.result
+      }
+
+      const { result, included, frontmatterType } = await compileSource(contents, filePath, local)
+      // Failures are compiled again, the next build may reach a context that was unavailable
+      if (!result.errors?.length) {
+        compiled.set(filePath, { source: contents, result, jsonld: graphDocuments.get(filePath), included, frontmatterType })
+      }
+      return result
+    }
+
+    async function compileSource(contents: string, filePath: string, local: boolean): Promise<Omit<CompiledDocument, 'source' | 'jsonld'>> {
+      let document: ParsedDocument
+      try {
+        document = parseDocument(contents, options)
+      } catch (yamlError) {
+        return {
+          result: {
+            errors: [frontmatterErrorMessage(yamlError, filePath)],
+            watchFiles: [filePath],
+          },
+        }
+      }
+
+      let included: Record<string, string>
+      try {
+        const prepared = await prepareDocument(document, filePath, local)
+        document = prepared.document
+        included = prepared.files
+      } catch (error) {
+        return {
+          result: {
+            errors: [preparationErrorMessage(error, document, filePath)],
+            watchFiles: [filePath],
+          },
+        }
+      }
+      const includedFiles = Object.keys(included)
+
+      const diagnostics = validate ? validationMessages(validate(document.data), document, filePath) : []
+      if (diagnostics.length > 0 && options?.validationLevel !== 'warning') {
+        return {
+          result: {
+            errors: diagnostics,
+            watchFiles: [filePath, ...includedFiles],
+          },
+        }
+      }
+      // Only one of the two spellings survives normalization, so say which one was dropped
+      diagnostics.push(...validationMessages(keywordConflicts(document.data), document, filePath))
+
+      let linkedFiles: string[] = []
+      if (graphPatterns.length > 0) {
+        // The document's own nodes win over stale copies of it in the graph
+        const nodes = new Map([...graph, ...collectNodes(document.data, filePath).map((node): [string, GraphNode] => [node.id, node])])
+        const linked = linkReferences(document.data, nodes, filePath)
+        const dangling = linked.dangling.map((reference) => ({ path: reference.path, text: `No document in the graph defines @id "${reference.id}"` }))
+        diagnostics.push(...validationMessages(dangling, document, filePath))
+        document = { ...document, data: linked.data, frontmatter: normalizeKeywords(linked.data, frontmatterStyle(options)) }
+        linkedFiles = linked.files
+      }
+
+      const frontmatterType = local && declarations ? inferType(document.frontmatter) : undefined
+      const declarationWarnings = frontmatterType === undefined ? [] : await declareDocument(filePath, frontmatterType)
+      const layout = layoutFor(document)
+      if (layout && filePath.endsWith('.md')) {
+        diagnostics.push(...markdownLayoutWarning(document, filePath, layout))
+      }
+      const result = await compileDocument(document, filePath, documentLoader, options, layout)
+      const jsonLd = toJsonLd(document.data)
+      if (options?.emitGraph && !result.errors?.length && Object.keys(jsonLd).length > 0) {
+        graphDocuments.set(filePath, jsonLd)
+      }
+      const warnings = [...diagnostics, ...declarationWarnings]
+      // Included files and embedded nodes of other documents are read too, so changing those rebuilds this one
+      const dependencies = [...includedFiles, ...linkedFiles]
+      const linkedResult = result.watchFiles && dependencies.length > 0 ? { ...result, watchFiles: [...result.watchFiles, ...dependencies] } : result
+      return {
+        result: warnings.length > 0 ? { ...linkedResult, warnings: [...(linkedResult.warnings ?? []), ...warnings] } : linkedResult,
+        included,
+        frontmatterType,
+      }
+    }
+
+    const graphPatterns = options?.graph === undefined ? [] : [options.graph].flat()
+    // `@id` nodes of the graph documents, collected again when each build starts
+    let graph = new Map<string, GraphNode>()
+    if (graphPatterns.length > 0) {
+      build.onStart(async () => {
+        const { listFiles } = storage
+        if (!listFiles || !projectDir) {
+          return { errors: [{ text: 'Cannot list the documents of the graph option, pass listFiles to esbuild-mdxld/wasm' }] }
+        }
+        const files = [...new Set((await Promise.all(graphPatterns.map((pattern) => listFiles(pattern, projectDir)))).flat())].sort()
+        const nodes = new Map<string, GraphNode>()
+        for (const file of files) {
+          try {
+            const { document } = await prepareDocument(parseDocument(await readFile(file), options), file, true)
+            collectNodes(document.data, file).forEach((node) => nodes.set(node.id, node))
+          } catch {
+            // Broken documents report their own errors when they are compiled
+          }
+        }
+        // Documents embed nodes of others, so compiled results are only reusable while the graph stays the same
+        if (JSON.stringify([...nodes.values()]) !== JSON.stringify([...graph.values()])) {
+          compiled.clear()
+        }
+        graph = nodes
+        return undefined
+      })
+    }
+
+    // Linked data of the documents loaded by the current build, keyed by path
+    const graphDocuments = new Map<string, Record<string, unknown>>()
+    if (options?.emitGraph) {
+      const graphOptions = options.emitGraph === true ? {} : options.emitGraph
+      build.onStart(() => graphDocuments.clear())
+      build.onEnd(async (result) => {
+        if (result.errors.length > 0) {
+          return
+        }
+        const { outdir, outfile, write } = build.initialOptions
+        const target = outdir ?? (outfile ? dirname(outfile) : undefined)
+        if (!target) {
+          result.warnings.push(pluginMessage('The emitGraph option needs outdir or outfile to know where to write graph.jsonld'))
+          return
+        }
+        const directory = projectDir ? joinPath(projectDir, target) : target
+
+        let files: Record<string, string>
+        try {
+          // Sorted by path so the graph does not depend on the order documents finished loading in
+          const documents = [...graphDocuments.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([, data]) => data)
+          const graphFiles = await createGraphFiles(documents, documentLoader, graphOptions)
+          files = graphFiles.files
+          // RDF drops nodes and references with relative ids, so say which ones went missing
+          if (graphFiles.relativeIds.length > 0) {
+            result.warnings.push(
+              pluginMessage(
+                `The graph has relative @ids that are left out of its RDF, set emitGraph.base to expand them: ${graphFiles.relativeIds.join(', ')}`,
+              ),
+            )
+          }
+        } catch (error) {
+          result.errors.push(pluginMessage(`Failed to emit the JSON-LD graph: ${error instanceof Error ? error.message : String(error)}`))
+          return
+        }
+
+        for (const [name, text] of Object.entries(files)) {
+          const path = `${directory}/${name}`
+          if (write === false) {
+            result.outputFiles?.push({ path, contents: new TextEncoder().encode(text), text, hash: '' })
+          } else if (storage.writeFile) {
+            await storage.writeFile(path, text)
+          } else {
+            result.warnings.push(pluginMessage(`Cannot write ${name}, pass writeFile to esbuild-mdxld/wasm or build with write: false`))
+            return
+          }
+        }
+      })
+    }
+
+    // Data files import as their normalized data, checked like frontmatter
+    async function loadDataFile(contents: string, filePath: string): Promise<MDXOnLoadResult> {
+      let file: DataFile
+      try {
+        file = parseDataFile(contents, filePath)
+      } catch (error) {
+        return { errors: [frontmatterErrorMessage(error, filePath)], watchFiles: [filePath] }
+      }
+
+      // Data files have no fence, their first line is line 1
+      const document: ParsedDocument = { data: file.data, frontmatter: {}, format: file.format, source: file.source, body: '' }
+      let included: IncludedData
+      try {
+        included = await resolveIncludes(file.data, filePath, readFile)
+      } catch (error) {
+        return { errors: [preparationErrorMessage(error, document, filePath, 0)], watchFiles: [filePath] }
+      }
+
+      const watchFiles = [filePath, ...Object.keys(included.files)]
+      const diagnostics = validate ? validationMessages(validate(included.data), document, filePath, 0) : []
+      if (diagnostics.length > 0 && options?.validationLevel !== 'warning') {
+        return { errors: diagnostics, watchFiles }
+      }
+      diagnostics.push(...validationMessages(keywordConflicts(included.data), document, filePath, 0))
+      return {
+        contents: JSON.stringify(normalizeKeywords(included.data, frontmatterStyle(options))),
+        loader: 'json',
+        warnings: diagnostics,
+        watchFiles,
+      }
+    }
+
+    // Collections read frontmatter only, the documents compile when an entry's `load` imports them
+    async function loadCollection(specifier: string): Promise<MDXOnLoadResult> {
+      let query: CollectionQuery
+      try {
+        query = parseCollectionQuery(specifier)
+      } catch (error) {
+        return { errors: [{ text: error instanceof Error ? error.message : String(error) }] }
+      }
+      if (!storage.listFiles || !projectDir) {
+        return { errors: [{ text: `Cannot list the documents of ${specifier}, pass listFiles to esbuild-mdxld/wasm` }] }
+      }
+
+      const files = (await storage.listFiles(query.glob, projectDir)).sort()
+      const base = globBase(query.glob)
+      const entries: CollectionEntry[] = []
+      const errors: PartialMessage[] = []
+      const includedFiles: string[] = []
+      for (const file of files) {
+        let document: ParsedDocument
+        try {
+          document = parseDocument(await readFile(file), options)
+        } catch (error) {
+          errors.push(frontmatterErrorMessage(error, file))
+          continue
+        }
+        try {
+          const included = await prepareDocument(document, file, true)
+          document = included.document
+          includedFiles.push(...Object.keys(included.files))
+        } catch (error) {
+          errors.push(preparationErrorMessage(error, document, file))
+          continue
+        }
+        const path = file.startsWith(`${projectDir}/`) ? file.slice(projectDir.length + 1) : file
+        entries.push({
+          slug: (base && path.startsWith(`${base}/`) ? path.slice(base.length + 1) : path).replace(/\.[^/.]+$/, ''),
+          path,
+          file,
+          // Dates sort and filter as the strings the module exports
+          frontmatter: toJsonData(document.frontmatter),
+          jsonld: toJsonData(toJsonLd(document.data)),
+        })
+      }
+
+      // New documents in a watched directory rebuild the collection
+      const watchDirs = [...new Set([base ? joinPath(projectDir, base) : projectDir, ...files.map(dirname)])]
+      const watchFiles = [...new Set([...files, ...includedFiles])]
+      if (errors.length > 0) {
+        return { errors, watchFiles, watchDirs }
+      }
+      return {
+        contents: collectionModule(selectEntries(entries, query)),
+        loader: 'js',
+        resolveDir: projectDir,
+        watchFiles,
+        watchDirs,
+      }
+    }
+
+    const resolvers = options?.resolvers ?? {}
+    // Longest prefix first, so `github:org/` can override `github:`
+    const resolverPrefixes = Object.keys(resolvers).sort((a, b) => b.length - a.length)
+
+    async function fetchModule(url: string): Promise<VirtualFile> {
+      const cachedFile = virtualFs.get(url)
+      if (cachedFile) {
+        return cachedFile
+      }
+
+      const prefix = resolverPrefixes.find((candidate) => url.startsWith(candidate))
+      const cacheOptions = { offline: options?.offline }
+      const response = prefix
+        ? await resolveCached(resolvers[prefix], url, storage.httpCache, cacheOptions)
+        : await fetchCached(httpClient, url, storage.httpCache, cacheOptions)
+      const virtualFile: VirtualFile = {
+        contents: response.contents,
+        loader: response.loader ?? remoteLoader(response.url, response.contentType),
+        path: response.url,
+      }
+      virtualFs.set(url, virtualFile)
+      return virtualFile
+    }
+
+    if (options?.updateLock && !options.lockfile) {
+      build.onStart(() => ({ errors: [{ text: 'The updateLock option needs lockfile, the path of the lockfile to rewrite' }] }))
+    }
+
+    const lock = storage.lock
+    if (lock) {
+      build.onStart(() => lock.load())
+      // A failed build may not have reached every import, so it leaves the lockfile alone
+      build.onEnd(async (result) => {
+        if (result.errors.length === 0) {
+          await lock.save()
+        }
+      })
+    }
+
+    // Blocked hosts fail at the import, so the error names the module that asked for them
+    function blockedImport(url: string, importer: string): OnResolveResult | undefined {
+      if (isHostAllowed(url, options?.http)) {
+        return undefined
+      }
+      return {
+        errors: [{ text: `Cannot import ${url} from ${importer}: the host is blocked by the allowHosts and denyHosts options` }],
+      }
+    }
+
+    build.onResolve(
+      { filter: /^https?:\/\// },
+      (args: ResolveArgs): OnResolveResult =>
+        blockedImport(args.path, args.importer) ?? {
+          path: args.path,
+          namespace: 'http-url',
+        },
+    )
+
+    // Imports with a custom scheme load like HTTP imports, through their resolver
+    if (resolverPrefixes.length > 0) {
+      build.onResolve({ filter: new RegExp(`^(${resolverPrefixes.map(escapeRegExp).join('|')})`) }, (args: ResolveArgs): OnResolveResult => ({
+        path: args.path,
+        namespace: 'http-url',
+      }))
+    }
+
+    // Relative and root-relative imports inside remote modules point at other remote modules
+    build.onResolve({ filter: /^\.{0,2}\//, namespace: 'http-url' }, (args: ResolveArgs): OnResolveResult => {
+      const base = (args.pluginData as RemoteModuleData | undefined)?.url ?? args.importer
+      const path = resolveUri(args.path, base)
+      return (
+        blockedImport(path, args.importer) ?? {
+          path,
+          namespace: 'http-url',
+        }
+      )
+    })
+
+    build.onResolve({ filter: new RegExp(`^${COLLECTION_PREFIX}(\\?|$)`) }, (args: ResolveArgs): OnResolveResult => ({
+      path: args.path,
+      namespace: 'mdxld-collection',
+    }))
+
+    build.onLoad({ filter: /.*/, namespace: 'mdxld-collection' }, (args: LoadArgs): Promise<MDXOnLoadResult> => loadCollection(args.path))
+
+    // Documents and data files are read alike and differ only in how their contents load
+    build.onLoad({ filter: /\.(?:mdx?|yamlld|yaml-ld|jsonld)$/, namespace: 'file' }, async (args: LoadArgs): Promise<MDXOnLoadResult> => {
+      let contents: string
+      try {
+        contents = await readFile(args.path)
+      } catch (error) {
+        return {
+          errors: [{ text: 'Failed to read file', notes: [{ text: error instanceof Error ? error.message : String(error) }] }],
+        }
+      }
+
+      return DATA_FILE.test(args.path) ? loadDataFile(contents, args.path) : loadDocument(contents, args.path, true)
+    })
+
+    build.onLoad({ filter: /.*/, namespace: 'http-url' }, async (args: LoadArgs): Promise<MDXOnLoadResult> => {
+      let remoteFile: VirtualFile
+      try {
+        remoteFile = await fetchModule(args.path)
+        await lock?.verify(
+          args.path,
+          remoteFile.path ?? args.path,
+          typeof remoteFile.contents === 'string' ? remoteFile.contents : JSON.stringify(remoteFile.contents),
+        )
+      } catch (error) {
+        return {
+          errors: [{ text: error instanceof Error ? error.message : 'Failed to fetch' }],
+        }
+      }
+
+      const pluginData: RemoteModuleData = { url: remoteFile.path ?? args.path }
+      if (remoteFile.loader === 'mdx') {
+        const result = await loadDocument(String(remoteFile.contents), pluginData.url)
+        // Remote documents have nothing to watch on disk
+        return { ...result, resolveDir: projectDir, watchFiles: undefined, pluginData }
+      }
+      return { ...convertVirtualFileToMDXResult({ ...remoteFile, loader: remoteFile.loader }), resolveDir: projectDir, pluginData }
+    })
+  },
+})
@@ -0,0 +1,92 @@
+import { FrontmatterSyntaxError, normalizeLineEndings, parseFrontmatter } from './frontmatter.js'
+import { dirname, joinPath } from './paths.js'
+import { FrontmatterFormat, ReadFile } from './types.js'
+import { DataPath } from './validate.js'
+import { YamlInclude, YamlSyntaxError } from './yamlld.js'
+
+/**
+ * Standalone YAML-LD and JSON-LD files, importable as modules
+ */
+export const DATA_FILE = /\.(?:yamlld|yaml-ld|jsonld)$/
+
+/**
+ * An `!include` that could not be read, at the path of the tag in the including data
+ */
+export class IncludeError extends Error {
+  constructor(
+    message: string,
+    readonly path: DataPath,
+  ) {
+    super(message)
+    this.name = 'IncludeError'
+  }
+}
+
+export interface DataFile {
+  format: FrontmatterFormat
+  /** Source with normalized line endings */
+  source: string
+  data: Record<string, unknown>
+}
+
+export interface IncludedData {
+  data: Record<string, unknown>
+  /** Contents of every included file, keyed by path */
+  files: Record<string, string>
+}
+
+/**
+ * Parses a YAML-LD or JSON-LD data file, telling the two apart by extension
+ */
+export function parseDataFile(contents: string, filePath: string): DataFile {
+  const format = /\.json(?:ld)?$/.test(filePath) ? 'json' : 'yaml'
+  const source = normalizeLineEndings(contents)
+  return { format, source, data: parseFrontmatter(format, source) }
+}
+
+function syntaxErrorLine(error: unknown): string {
+  return error instanceof YamlSyntaxError || error instanceof FrontmatterSyntaxError ? ` (line ${error.line})` : ''
+}
+
+/**
+ * Replaces `!include` tags with the data of the file they name, relative to the including file.
+ * Included files may include others, but not themselves.
+ */
+export async function resolveIncludes(data: Record<string, unknown>, filePath: string, readFile: ReadFile): Promise<IncludedData> {
+  const files: Record<string, string> = {}
+
+  const visit = async (value: unknown, path: DataPath, from: string, chain: string[]): Promise<unknown> => {
+    if (value instanceof YamlInclude) {
+      const file = joinPath(dirname(from), value.path)
+      if (chain.includes(file)) {
+        throw new IncludeError(`Circular !include of ${value.path}`, path)
+      }
+      let included: DataFile
+      try {
+        const contents = await readFile(file)
+        included = parseDataFile(contents, file)
+        files[file] = contents
+      } catch (error) {
+        throw new IncludeError(`Cannot include ${value.path}: ${error instanceof Error ? error.message : String(error)}${syntaxErrorLine(error)}`, path)
+      }
+      return visit(included.data, path, file, [...chain, file])
+    }
+    if (Array.isArray(value)) {
+      const items: unknown[] = []
+      for (const [index, item] of value.entries()) {
+        items.push(await visit(item, [...path, index], from, chain))
+      }
+      return items
+    }
+    if (typeof value === 'object' && value !== null && !(value instanceof Date)) {
+      const entries: [string, unknown][] = []
+      for (const [key, child] of Object.entries(value)) {
+        entries.push([key, await visit(child, [...path, key], from, chain)])
+      }
+      return Object.fromEntries(entries)
+    }
+    return value
+  }
+
+  return { data: (await visit(data, [], filePath, [filePath])) as Record<string, unknown>, files }
+}
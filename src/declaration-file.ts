@@ -0,0 +1,66 @@
+/// <reference types="node" />
+import { promises as fsPromises } from 'fs'
+import { basename } from 'path'
+import { DeclarationOptions, moduleDeclaration } from './declarations.js'
+import { DeclarationWriter } from './types.js'
+
+const HEADER = '// Generated by esbuild-mdxld from document frontmatter, do not edit\n'
+
+// Unchanged files are left alone so type checkers in watch mode are not retriggered
+async function writeIfChanged(path: string, contents: string): Promise<void> {
+  const current = await fsPromises.readFile(path, 'utf8').catch(() => undefined)
+  if (current !== contents) {
+    await fsPromises.writeFile(path, contents)
+  }
+}
+
+// Plain Markdown cannot declare components, so `injectJsonLd` leaves `.md` files alone
+function declarationOptions(name: string, options: DeclarationOptions): DeclarationOptions {
+  return name.endsWith('.md') ? { ...options, injectJsonLd: false } : options
+}
+
+function indent(text: string): string {
+  return text.replace(/^(?=.)/gm, '  ')
+}
+
+/**
+ * Creates a writer for `.d.ts` files next to each document, or for a single ambient
+ * declaration file at `target`. Ambient modules can only match imports by file name,
+ * so documents sharing a name are declared together with the union of their types.
+ */
+export function createDeclarationWriter(target: true | string, options: DeclarationOptions = {}): DeclarationWriter {
+  const types = new Map<string, string>()
+
+  return {
+    // Each build declares the documents it loads again, so deleted and renamed ones drop out
+    start() {
+      types.clear()
+    },
+
+    async write(filePath, frontmatterType) {
+      if (target === true) {
+        await writeIfChanged(`${filePath}.d.ts`, HEADER + moduleDeclaration(frontmatterType, declarationOptions(filePath, options)))
+      } else {
+        types.set(filePath, frontmatterType)
+      }
+    },
+
+    async flush() {
+      if (target === true) {
+        return
+      }
+      const byName = new Map<string, string[]>()
+      for (const [filePath, type] of types) {
+        const name = basename(filePath)
+        byName.set(name, [...(byName.get(name) ?? []), type])
+      }
+      const modules = [...byName.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(
+          ([name, frontmatterTypes]) =>
+            `declare module '*/${name}' {\n${indent(moduleDeclaration([...new Set(frontmatterTypes)].join(' | '), declarationOptions(name, options)))}}\n`,
+        )
+      await writeIfChanged(target, [HEADER, ...modules].join('\n'))
+    },
+  }
+}
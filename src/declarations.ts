@@ -0,0 +1,173 @@
+import { isObject } from './frontmatter.js'
+import { TypeSchema } from './types.js'
+import { localName } from './validate.js'
+
+/**
+ * Exports of a compiled document that depend on the plugin options
+ */
+export interface DeclarationOptions {
+  resolveContexts?: boolean
+  jsonLdScript?: boolean
+  injectJsonLd?: boolean
+  frontmatterAlias?: string
+}
+
+type JsonSchema = Record<string, unknown>
+
+const INDENT = '  '
+
+function propertyName(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key)
+}
+
+function union(types: string[]): string {
+  const unique = [...new Set(types)]
+  return unique.length === 0 ? 'never' : unique.join(' | ')
+}
+
+function arrayOf(type: string): string {
+  return /^[\w.]+$/.test(type) ? `${type}[]` : `(${type})[]`
+}
+
+function objectType(properties: [string, string, boolean][], depth: number): string {
+  if (properties.length === 0) {
+    return 'Record<string, unknown>'
+  }
+  const lines = properties.map(([key, type, optional]) => `${INDENT.repeat(depth + 1)}${propertyName(key)}${optional ? '?' : ''}: ${type}`)
+  return `{\n${lines.join('\n')}\n${INDENT.repeat(depth)}}`
+}
+
+function schemaType(schema: unknown, depth: number): string {
+  if (!isObject(schema)) {
+    return 'unknown'
+  }
+  if ('const' in schema) {
+    return JSON.stringify(schema.const)
+  }
+  if (Array.isArray(schema.enum)) {
+    return union(schema.enum.map((value) => JSON.stringify(value)))
+  }
+  const alternatives = schema.anyOf ?? schema.oneOf
+  if (Array.isArray(alternatives)) {
+    return union(alternatives.map((alternative) => schemaType(alternative, depth)))
+  }
+
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type]
+  return union(
+    types.map((type) => {
+      switch (type) {
+        case 'string':
+          return 'string'
+        case 'number':
+        case 'integer':
+          return 'number'
+        case 'boolean':
+          return 'boolean'
+        case 'null':
+          return 'null'
+        case 'array':
+          return arrayOf(schemaType(schema.items, depth))
+        case 'object':
+          return objectSchemaType(schema, depth)
+        default:
+          return isObject(schema.properties) ? objectSchemaType(schema, depth) : 'unknown'
+      }
+    }),
+  )
+}
+
+function objectSchemaType(schema: JsonSchema, depth: number): string {
+  const required = Array.isArray(schema.required) ? schema.required : []
+  const properties = Object.entries(isObject(schema.properties) ? schema.properties : {})
+  return objectType(
+    properties.map(([key, property]) => [key, schemaType(property, depth + 1), !required.includes(key)]),
+    depth,
+  )
+}
+
+/**
+ * Infers TypeScript types from frontmatter values. Nodes with a `@type` or `$type`
+ * that has a schema take their property types from it, the rest from their values.
+ */
+export function createTypeInference(schemas: Record<string, TypeSchema> = {}): (value: unknown) => string {
+  function findSchema(node: Record<string, unknown>, typeKey: string): TypeSchema | undefined {
+    const types = (Array.isArray(node[typeKey]) ? node[typeKey] : [node[typeKey]]) as unknown[]
+    for (const type of types.filter((value): value is string => typeof value === 'string')) {
+      const schema = schemas[type] ?? schemas[localName(type)]
+      if (schema) {
+        return schema
+      }
+    }
+    return undefined
+  }
+
+  function nodeType(node: Record<string, unknown>, depth: number): string {
+    const typeKey = ['@type', '$type'].find((key) => typeof node[key] === 'string' || Array.isArray(node[key]))
+    const schema = typeKey ? findSchema(node, typeKey) : undefined
+    const declared: Record<string, string> = {}
+    const required: string[] = []
+    if (Array.isArray(schema)) {
+      schema.forEach((key) => (declared[key] = 'unknown'))
+      required.push(...schema)
+    } else if (schema) {
+      Object.entries(isObject(schema.properties) ? schema.properties : {}).forEach(([key, property]) => (declared[key] = schemaType(property, depth + 1)))
+      required.push(...(Array.isArray(schema.required) ? (schema.required as string[]) : []))
+    }
+
+    const properties = new Map<string, [string, string, boolean]>()
+    for (const [key, value] of Object.entries(node)) {
+      // The type itself stays literal, so documents can be told apart by it
+      if (key === typeKey && typeof value === 'string') {
+        properties.set(key, [key, JSON.stringify(value), false])
+      } else {
+        properties.set(key, [key, declared[key] && declared[key] !== 'unknown' ? declared[key] : infer(value, depth + 1), false])
+      }
+    }
+    for (const [key, type] of Object.entries(declared)) {
+      if (!properties.has(key)) {
+        properties.set(key, [key, type, !required.includes(key)])
+      }
+    }
+    return objectType([...properties.values()], depth)
+  }
+
+  function infer(value: unknown, depth: number): string {
+    if (value === null || value === undefined) {
+      return 'null'
+    }
+    if (Array.isArray(value)) {
+      return value.length === 0 ? 'unknown[]' : arrayOf(union(value.map((item) => infer(item, depth))))
+    }
+    // YAML timestamps are exported as ISO strings
+    if (value instanceof Date) {
+      return 'string'
+    }
+    if (isObject(value)) {
+      return nodeType(value, depth)
+    }
+    return typeof value === 'number' || typeof value === 'boolean' ? typeof value : 'string'
+  }
+
+  return (value) => infer(value, 0)
+}
+
+/**
+ * Declares the exports of a compiled document, given the type of its frontmatter
+ */
+export function moduleDeclaration(frontmatterType: string, options: DeclarationOptions = {}): string {
+  const lines = [`export type Frontmatter = ${frontmatterType}`, '', 'export const frontmatter: Frontmatter', 'export const jsonld: Record<string, unknown>']
+  if (options.frontmatterAlias) {
+    lines.push(`export const ${options.frontmatterAlias}: Frontmatter`)
+  }
+  if (options.resolveContexts) {
+    lines.push('export const jsonldExpanded: Record<string, unknown>[]', 'export const jsonldCompacted: Record<string, unknown>')
+  }
+  if (options.jsonLdScript) {
+    lines.push('export const jsonLdScript: string')
+  }
+  if (options.injectJsonLd) {
+    lines.push('export function JsonLd(): unknown')
+  }
+  lines.push('export default function MDXContent(props: Record<string, unknown>): unknown')
+  return `${lines.join('\n')}\n`
+}
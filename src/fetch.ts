@@ -0,0 +1,159 @@
+import { HttpOptions } from './types.js'
+
+/**
+ * A fully read HTTP response
+ */
+export interface HttpResponse {
+  /** URL of the response after following redirects */
+  url: string
+  status: number
+  statusText: string
+  ok: boolean
+  header(name: string): string | undefined
+  text: string
+}
+
+/**
+ * Requests a URL with the configured headers, timeout, retries, size limit and host lists
+ */
+export type HttpClient = (url: string, headers?: Record<string, string>) => Promise<HttpResponse>
+
+// Errors that retrying cannot fix
+class PermanentError extends Error {}
+
+const MAX_REDIRECTS = 20
+
+function matchesHost(hostname: string, pattern: string): boolean {
+  const host = hostname.toLowerCase()
+  const expected = pattern.toLowerCase()
+  if (expected === '*') return true
+  if (expected.startsWith('*.')) return host.endsWith(expected.slice(1))
+  return host === expected
+}
+
+/**
+ * Whether the host lists allow requests to a URL, URLs without a host are always allowed
+ */
+export function isHostAllowed(url: string, options: HttpOptions = {}): boolean {
+  let hostname: string
+  try {
+    hostname = new URL(url).hostname
+  } catch {
+    return true
+  }
+  if (!hostname) return true
+  if (options.denyHosts?.some((pattern) => matchesHost(hostname, pattern))) return false
+  return !options.allowHosts || options.allowHosts.some((pattern) => matchesHost(hostname, pattern))
+}
+
+function blockedHostError(url: string): Error {
+  return new PermanentError(`Requests to ${new URL(url).hostname} are blocked by the allowHosts and denyHosts options (${url})`)
+}
+
+function hostHeaders(url: string, options: HttpOptions): Record<string, string> {
+  const hostname = new URL(url).hostname
+  return Object.assign({}, ...Object.entries(options.headers ?? {}).map(([pattern, headers]) => (matchesHost(hostname, pattern) ? headers : {})))
+}
+
+async function readBody(response: Response, url: string, maxSize: number | undefined): Promise<string> {
+  const tooLarge = () => new PermanentError(`Response from ${url} is larger than maxResponseSize (${maxSize} bytes)`)
+  if (maxSize !== undefined && Number(response.headers.get('content-length') ?? 0) > maxSize) {
+    throw tooLarge()
+  }
+  const reader = maxSize !== undefined ? response.body?.getReader() : undefined
+  if (!reader) {
+    const text = await response.text()
+    if (maxSize !== undefined && new TextEncoder().encode(text).length > maxSize) {
+      throw tooLarge()
+    }
+    return text
+  }
+
+  // Stop reading as soon as the limit is passed, without buffering the whole body
+  const decoder = new TextDecoder()
+  let size = 0
+  let text = ''
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    size += chunk.value.byteLength
+    if (size > maxSize!) {
+      await reader.cancel()
+      throw tooLarge()
+    }
+    text += decoder.decode(chunk.value, { stream: true })
+  }
+  return text + decoder.decode()
+}
+
+/**
+ * Creates an HTTP client on top of `fetch`. Redirects are followed by hand, so each hop is
+ * checked against the host lists and only gets the headers configured for its own host.
+ */
+export function createHttpClient(fetchImpl: typeof globalThis.fetch, options: HttpOptions = {}): HttpClient {
+  const timeout = options.timeout ?? 30000
+  const retries = options.retries ?? 2
+  const retryDelay = options.retryDelay ?? 500
+  const checkHosts = Boolean(options.allowHosts || options.denyHosts)
+
+  async function request(url: string, headers: Record<string, string>): Promise<HttpResponse> {
+    const controller = new AbortController()
+    const timer = globalThis.setTimeout(() => controller.abort(), timeout)
+    try {
+      let location = url
+      for (let redirects = 0; ; redirects++) {
+        if (!isHostAllowed(location, options)) {
+          throw blockedHostError(location)
+        }
+        const requestHeaders = { ...hostHeaders(location, options), ...headers }
+        const init: RequestInit = { signal: controller.signal, redirect: 'manual' }
+        if (Object.keys(requestHeaders).length > 0) init.headers = requestHeaders
+        let response = await fetchImpl(location, init)
+
+        if (response.type === 'opaqueredirect') {
+          // Browsers hide the target of manual redirects, so let fetch follow it without the per-host headers
+          if (checkHosts) throw new PermanentError(`Cannot check the redirect of ${location} against the allowHosts and denyHosts options here`)
+          response = await fetchImpl(location, { signal: controller.signal, headers })
+        }
+
+        const next = response.status >= 300 && response.status < 400 ? response.headers.get('location') : null
+        if (next) {
+          if (redirects === MAX_REDIRECTS) throw new PermanentError(`Too many redirects for ${url}`)
+          location = new URL(next, location).toString()
+          continue
+        }
+
+        const text = await readBody(response, location, options.maxResponseSize)
+        return {
+          url: response.url || location,
+          status: response.status,
+          statusText: response.statusText,
+          ok: response.ok,
+          header: (name) => response.headers.get(name) ?? undefined,
+          text,
+        }
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new Error(`Request to ${url} timed out after ${timeout}ms`)
+      }
+      throw error
+    } finally {
+      globalThis.clearTimeout(timer)
+    }
+  }
+
+  return async (url, headers = {}) => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await request(url, headers)
+        if (response.status < 500 || attempt >= retries) {
+          return response
+        }
+      } catch (error) {
+        if (error instanceof PermanentError || attempt >= retries) {
+          throw error
+        }
+      }
+      await new Promise((resolve) => globalThis.setTimeout(resolve, retryDelay * 2 ** attempt))
+    }
+  }
+}
@@ -0,0 +1,33 @@
+/// <reference types="node" />
+import { createHash } from 'crypto'
+import { promises as fsPromises } from 'fs'
+import { join } from 'path'
+import { HttpCacheEntry, HttpCacheStore } from './types.js'
+
+/**
+ * Stores cached HTTP responses as one JSON file per URL in `dir`
+ */
+export function createFileCache(dir: string): HttpCacheStore {
+  const entryPath = (url: string) => join(dir, `${createHash('sha256').update(url).digest('hex')}.json`)
+
+  return {
+    async get(url) {
+      try {
+        const entry = JSON.parse(await fsPromises.readFile(entryPath(url), 'utf8')) as HttpCacheEntry & { url: string }
+        // A hash collision or a hand-edited file is treated as a miss
+        return entry.url === url ? entry : undefined
+      } catch {
+        return undefined
+      }
+    },
+
+    async set(url, entry) {
+      const path = entryPath(url)
+      await fsPromises.mkdir(dir, { recursive: true })
+      // Write and rename so parallel builds never read a partial entry
+      const temporary = `${path}.${process.pid}.tmp`
+      await fsPromises.writeFile(temporary, JSON.stringify({ url, ...entry }))
+      await fsPromises.rename(temporary, path)
+    },
+  }
+}
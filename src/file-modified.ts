@@ -0,0 +1,26 @@
+/// <reference types="node" />
+
+import { execFile } from 'child_process'
+import { promises as fsPromises } from 'fs'
+import { dirname } from 'path'
+
+function lastCommitDate(path: string): Promise<string> {
+  return new Promise((resolve) => {
+    execFile('git', ['log', '-1', '--format=%cI', '--', path], { cwd: dirname(path) }, (error, stdout) => resolve(error ? '' : stdout.trim()))
+  })
+}
+
+/**
+ * Date of the last commit touching a file, or its modification time when git does not track it
+ */
+export async function fileModified(path: string): Promise<Date | undefined> {
+  const committed = await lastCommitDate(path)
+  if (committed) {
+    return new Date(committed)
+  }
+  try {
+    return (await fsPromises.stat(path)).mtime
+  } catch {
+    return undefined
+  }
+}
@@ -0,0 +1,114 @@
+import { parse as parseToml, TomlError } from 'smol-toml'
+import { FrontmatterFormat } from './types.js'
+import { parseYamlLd } from './yamlld.js'
+
+/**
+ * A TOML or JSON frontmatter syntax error located in the source document
+ */
+export class FrontmatterSyntaxError extends Error {
+  constructor(
+    readonly format: 'TOML' | 'JSON',
+    message: string,
+    /** 1-based line within the document */
+    readonly line: number,
+    /** 0-based column */
+    readonly column: number,
+    readonly lineText: string,
+  ) {
+    super(message)
+    this.name = 'FrontmatterSyntaxError'
+  }
+}
+
+/**
+ * The frontmatter block at the start of a document
+ */
+export interface FrontmatterBlock {
+  format: FrontmatterFormat
+  /** Source between the fences */
+  source: string
+  /** The whole block, fences included */
+  block: string
+}
+
+// Fences in the conventions of gray-matter: `---` for YAML, `+++` for TOML, `;;;` for JSON.
+// A leading ```json code block is read as JSON frontmatter too.
+const FENCES: [FrontmatterFormat, RegExp][] = [
+  ['yaml', /^---\n(?:([\s\S]*?)\n)?---/],
+  ['toml', /^\+\+\+\n(?:([\s\S]*?)\n)?\+\+\+/],
+  ['json', /^;;;\n(?:([\s\S]*?)\n)?;;;/],
+  ['json', /^```json\n(?:([\s\S]*?)\n)?```/],
+]
+
+/**
+ * Copies data as JSON sees it, so the dates YAML and TOML parse into become the strings
+ * that modules export and that JSON-LD and JSON Schema work with
+ */
+export function toJsonData<T>(data: T): T {
+  return JSON.parse(JSON.stringify(data)) as T
+}
+
+/**
+ * Whether a value is a mapping of keys, not an array or a date YAML and TOML parse into
+ */
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date)
+}
+
+/**
+ * Drops a byte order mark and turns CRLF and CR line endings into LF, which keeps line numbers
+ */
+export function normalizeLineEndings(contents: string): string {
+  return contents.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n')
+}
+
+/**
+ * Finds the frontmatter block of a document with normalized line endings
+ */
+export function findFrontmatter(contents: string): FrontmatterBlock | undefined {
+  for (const [format, fence] of FENCES) {
+    const matches = contents.match(fence)
+    if (matches) {
+      return { format, source: matches[1] ?? '', block: matches[0] }
+    }
+  }
+  return undefined
+}
+
+// smol-toml counts lines and columns from 1 and appends a code frame to its message
+function tomlError(error: TomlError): { message: string; line: number; column: number } {
+  return { message: error.message.split('\n')[0].replace(/^Invalid TOML document: /, ''), line: error.line - 1, column: error.column - 1 }
+}
+
+// JSON.parse reports a character position, or a line and column in newer engines
+function jsonErrorPosition(error: Error, source: string): { line: number; column: number } {
+  const lineColumn = error.message.match(/line (\d+) column (\d+)/)
+  if (lineColumn) {
+    return { line: Number(lineColumn[1]) - 1, column: Number(lineColumn[2]) - 1 }
+  }
+  const lines = source.slice(0, Number(error.message.match(/position (\d+)/)?.[1] ?? 0)).split('\n')
+  return { line: lines.length - 1, column: lines[lines.length - 1].length }
+}
+
+/**
+ * Parses frontmatter source in any of the supported formats into YAML-LD data.
+ * `lineOffset` is the number of document lines before the source, used in errors.
+ */
+export function parseFrontmatter(format: FrontmatterFormat, source: string, lineOffset = 0): Record<string, unknown> {
+  if (format === 'yaml') {
+    return parseYamlLd(source, lineOffset)
+  }
+
+  let parsed: unknown
+  try {
+    parsed = format === 'toml' ? parseToml(source) : JSON.parse(source)
+  } catch (error) {
+    if (!(error instanceof Error)) throw error
+    const { message, line, column } = error instanceof TomlError ? tomlError(error) : { message: error.message, ...jsonErrorPosition(error, source) }
+    throw new FrontmatterSyntaxError(format === 'toml' ? 'TOML' : 'JSON', message, lineOffset + line + 1, column, source.split('\n')[line] ?? '')
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new FrontmatterSyntaxError('JSON', 'Frontmatter must be an object', lineOffset + 1, 0, source.split('\n')[0])
+  }
+  return parsed as Record<string, unknown>
+}
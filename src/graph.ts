@@ -0,0 +1,113 @@
+import { isObject } from './frontmatter.js'
+import { DataPath } from './validate.js'
+
+/**
+ * A frontmatter node with an `@id` and data of its own
+ */
+export interface GraphNode {
+  id: string
+  /** Document defining the node */
+  file: string
+  data: Record<string, unknown>
+}
+
+export interface DanglingReference {
+  id: string
+  /** Path of the reference's `@id` property */
+  path: DataPath
+}
+
+export interface LinkedData {
+  data: Record<string, unknown>
+  dangling: DanglingReference[]
+  /** Other documents whose nodes were embedded */
+  files: string[]
+}
+
+const ID_KEYS = ['@id', '$id']
+
+function idKey(node: Record<string, unknown>): string | undefined {
+  return ID_KEYS.find((key) => typeof node[key] === 'string')
+}
+
+// A node holding nothing but its `@id` points at a node defined elsewhere
+function referenceKey(node: Record<string, unknown>): string | undefined {
+  const key = idKey(node)
+  return key && Object.keys(node).length === 1 ? key : undefined
+}
+
+function origin(id: string): string | undefined {
+  try {
+    const { origin } = new URL(id)
+    return origin === 'null' ? undefined : origin
+  } catch {
+    return undefined
+  }
+}
+
+// Relative ids, blank nodes and IRIs on the origin of a graph node are the graph's to define.
+// Other IRIs, such as a `sameAs` profile, point outside of it.
+function isLocalId(id: string, origins: Set<string>): boolean {
+  if (!/^[A-Za-z][A-Za-z\d+.-]*:/.test(id) || id.startsWith('_:')) {
+    return true
+  }
+  const idOrigin = origin(id)
+  return idOrigin !== undefined && origins.has(idOrigin)
+}
+
+/**
+ * Finds the nodes a document defines, at any depth
+ */
+export function collectNodes(data: Record<string, unknown>, file: string): GraphNode[] {
+  const nodes: GraphNode[] = []
+  const visit = (value: unknown): void => {
+    if (Array.isArray(value)) {
+      value.forEach(visit)
+    } else if (isObject(value)) {
+      const key = idKey(value)
+      if (key && !referenceKey(value)) {
+        nodes.push({ id: value[key] as string, file, data: value })
+      }
+      Object.values(value).forEach(visit)
+    }
+  }
+  visit(data)
+  return nodes
+}
+
+/**
+ * Replaces references with the data of the node they point at. Embedded nodes keep their
+ * own references as they are, so cycles between documents cannot recurse. References to
+ * IRIs outside of the graph's sites are left alone rather than reported as dangling.
+ */
+export function linkReferences(data: Record<string, unknown>, nodes: Map<string, GraphNode>, file: string): LinkedData {
+  const dangling: DanglingReference[] = []
+  const files = new Set<string>()
+  const origins = new Set([...nodes.keys()].map(origin).filter((value): value is string => value !== undefined))
+
+  const link = (value: unknown, path: DataPath): unknown => {
+    if (Array.isArray(value)) {
+      return value.map((item, index) => link(item, [...path, index]))
+    }
+    if (!isObject(value)) {
+      return value
+    }
+    const key = referenceKey(value)
+    if (key) {
+      const target = nodes.get(value[key] as string)
+      if (!target) {
+        if (isLocalId(value[key] as string, origins)) {
+          dangling.push({ id: value[key] as string, path: [...path, key] })
+        }
+        return value
+      }
+      if (target.file !== file) {
+        files.add(target.file)
+      }
+      return target.data
+    }
+    return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, link(child, [...path, key])]))
+  }
+
+  return { data: link(data, []) as Record<string, unknown>, dangling, files: [...files] }
+}
@@ -0,0 +1,97 @@
+import jsonld from 'jsonld'
+import type { RemoteDocument } from 'jsonld/jsonld-spec'
+import { CachedFetchOptions, fetchCached } from './cache.js'
+import { HttpClient } from './fetch.js'
+import { toJsonData } from './frontmatter.js'
+import { HttpCacheStore, JsonLdContextDocument } from './types.js'
+
+export type DocumentLoader = (url: string) => Promise<RemoteDocument>
+
+export interface ResolvedJsonLd {
+  expanded: unknown
+  compacted: Record<string, unknown>
+}
+
+function findLocalContext(contexts: Record<string, JsonLdContextDocument>, url: string): JsonLdContextDocument | undefined {
+  return contexts[url] ?? contexts[url.replace(/\/$/, '')] ?? contexts[`${url}/`]
+}
+
+// schema.org and others answer with HTML and point at the context through a Link header
+function findAlternateLink(link: string | null | undefined): string | undefined {
+  for (const entry of link?.split(',') ?? []) {
+    const match = entry.match(/<([^>]+)>/)
+    if (match && /rel="?alternate"?/.test(entry) && /type="?application\/ld\+json"?/.test(entry)) {
+      return match[1]
+    }
+  }
+  return undefined
+}
+
+// jsonld wraps loader failures in generic dereferencing errors, keep the original reason instead
+function rootCause(error: unknown): unknown {
+  const cause = typeof error === 'object' && error !== null && 'details' in error ? (error as { details?: { cause?: unknown } }).details?.cause : undefined
+  return cause ? rootCause(cause) : error
+}
+
+/**
+ * Fetches a remote context document through the HTTP cache, following `alternate` links to the
+ * JSON-LD version. Offline, contexts come from the cache only, like HTTP imports.
+ */
+export async function fetchContextDocument(
+  httpClient: HttpClient,
+  url: string,
+  store?: HttpCacheStore,
+  options: CachedFetchOptions = {},
+): Promise<JsonLdContextDocument> {
+  const response = await fetchCached(httpClient, url, store, { ...options, headers: { Accept: 'application/ld+json, application/json' } })
+  const alternate = /json/.test(response.contentType ?? '') ? undefined : findAlternateLink(response.link)
+  if (alternate) {
+    return fetchContextDocument(httpClient, new URL(alternate, response.url).toString(), store, options)
+  }
+  return JSON.parse(response.contents) as JsonLdContextDocument
+}
+
+/**
+ * Creates a jsonld document loader that prefers local context documents and
+ * only falls back to `fetchContext` when one is given. Fetches are shared, so
+ * documents compiled in parallel request each context once.
+ */
+export function createDocumentLoader(
+  contexts: Record<string, JsonLdContextDocument>,
+  fetchContext?: (url: string) => Promise<JsonLdContextDocument>,
+): DocumentLoader {
+  const pending = new Map<string, Promise<JsonLdContextDocument>>()
+
+  return async (url) => {
+    const local = findLocalContext(contexts, url)
+    if (local) {
+      return { documentUrl: url, document: '@context' in local ? local : { '@context': local } } as RemoteDocument
+    }
+    if (!fetchContext) {
+      throw new Error(`Context ${url} is not available offline, add it to the contexts option`)
+    }
+
+    let document = pending.get(url)
+    if (!document) {
+      document = fetchContext(url)
+      pending.set(url, document)
+      // Let a later document retry after a failed fetch
+      document.catch(() => pending.delete(url))
+    }
+    return { documentUrl: url, document: await document } as RemoteDocument
+  }
+}
+
+/**
+ * Expands JSON-LD data to full IRIs and compacts it back against its own `@context`
+ */
+export async function resolveJsonLd(data: Record<string, unknown>, documentLoader: DocumentLoader): Promise<ResolvedJsonLd> {
+  const document = toJsonData(data)
+  try {
+    const expanded = await jsonld.expand(document, { documentLoader })
+    const compacted = await jsonld.compact(expanded, (document['@context'] ?? {}) as jsonld.ContextDefinition, { documentLoader })
+    return { expanded, compacted: compacted as Record<string, unknown> }
+  } catch (error) {
+    throw rootCause(error)
+  }
+}
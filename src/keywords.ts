@@ -0,0 +1,80 @@
+import { isObject } from './frontmatter.js'
+import { KeywordStyle } from './types.js'
+import { DataPath, ValidationIssue } from './validate.js'
+
+// The keywords of JSON-LD 1.1, without their prefix
+const KEYWORDS = new Set([
+  'base',
+  'container',
+  'context',
+  'direction',
+  'graph',
+  'id',
+  'import',
+  'included',
+  'index',
+  'json',
+  'language',
+  'list',
+  'nest',
+  'none',
+  'prefix',
+  'propagate',
+  'protected',
+  'reverse',
+  'set',
+  'type',
+  'value',
+  'version',
+  'vocab',
+])
+
+/**
+ * Whether a key is a JSON-LD keyword spelled with `@` or `$`, such as `@type` or `$context`
+ */
+export function isKeyword(key: string): boolean {
+  return /^[@$]/.test(key) && KEYWORDS.has(key.slice(1))
+}
+
+/**
+ * Spells the JSON-LD keywords in the data with the prefix of the style and leaves other keys as
+ * written. When an object has both spellings of a keyword, the one already in the style wins.
+ */
+export function normalizeKeywords(data: Record<string, unknown>, style: KeywordStyle): Record<string, unknown> {
+  const prefix = style === 'preserve' ? undefined : style === 'at' ? '@' : '$'
+  const rename = (key: string) => (prefix && isKeyword(key) ? `${prefix}${key.slice(1)}` : key)
+
+  const visit = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(visit)
+    }
+    if (!isObject(value)) {
+      return value
+    }
+    const entries = Object.entries(value).filter(([key]) => rename(key) === key || !(rename(key) in value))
+    return Object.fromEntries(entries.map(([key, child]) => [rename(key), visit(child)]))
+  }
+  return visit(data) as Record<string, unknown>
+}
+
+/**
+ * Finds objects that set a keyword with both prefixes, like `@type` and `$type`
+ */
+export function keywordConflicts(data: Record<string, unknown>): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+  const visit = (value: unknown, path: DataPath): void => {
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => visit(item, [...path, index]))
+    } else if (isObject(value)) {
+      for (const [key, child] of Object.entries(value)) {
+        const dollar = `$${key.slice(1)}`
+        if (key.startsWith('@') && isKeyword(key) && dollar in value) {
+          issues.push({ path: [...path, dollar], text: `Both ${key} and ${dollar} are set, use one spelling of the keyword` })
+        }
+        visit(child, [...path, key])
+      }
+    }
+  }
+  visit(data, [])
+  return issues
+}
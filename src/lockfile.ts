@@ -0,0 +1,100 @@
+/// <reference types="node" />
+import { createHash } from 'crypto'
+import { promises as fsPromises } from 'fs'
+import { RemoteImportLock } from './types.js'
+
+export interface LockedImport {
+  /** URL the contents came from after following redirects */
+  resolved: string
+  /** Subresource Integrity hash of the contents */
+  integrity: string
+  fetchedAt: string
+}
+
+export interface LockfileContents {
+  lockfileVersion: 1
+  imports: Record<string, LockedImport>
+}
+
+export interface LockfileOptions {
+  /** Rebuild the lockfile from the imports seen in this build */
+  update?: boolean
+  /** Current time, for tests */
+  now?: () => Date
+}
+
+/**
+ * Computes the SRI `sha384` hash of text contents
+ */
+export function integrity(contents: string): string {
+  return `sha384-${createHash('sha384').update(contents).digest('base64')}`
+}
+
+async function readLockfile(path: string): Promise<LockfileContents> {
+  try {
+    return JSON.parse(await fsPromises.readFile(path, 'utf8')) as LockfileContents
+  } catch (error) {
+    if ((error as { code?: string }).code === 'ENOENT') {
+      return { lockfileVersion: 1, imports: {} }
+    }
+    throw new Error(`Cannot read lockfile ${path}: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+// Sorted so the lockfile diffs cleanly
+function serialize(imports: Record<string, LockedImport>): string {
+  const sorted = Object.fromEntries(Object.entries(imports).sort(([a], [b]) => a.localeCompare(b)))
+  return `${JSON.stringify({ lockfileVersion: 1, imports: sorted }, null, 2)}\n`
+}
+
+/**
+ * Creates a lock backed by a JSON file that records the resolved URL, integrity
+ * and fetch time of every HTTP import
+ */
+export function createLockfile(path: string, options: LockfileOptions = {}): RemoteImportLock {
+  const now = options.now ?? (() => new Date())
+  let locked: Promise<LockfileContents> | undefined
+  // Imports pinned by this build, which replace the whole lockfile in update mode
+  let seen: Record<string, LockedImport> = {}
+  let changed = false
+
+  return {
+    async load() {
+      locked = readLockfile(path)
+      seen = {}
+      changed = false
+      await locked
+    },
+
+    async verify(url, resolvedUrl, contents) {
+      const { imports } = await (locked ??= readLockfile(path))
+      const hash = integrity(contents)
+      const previous = imports[url]
+
+      if (previous && previous.integrity !== hash && !options.update) {
+        throw new Error(
+          `Integrity check failed for ${url}: ${path} pins ${previous.integrity} but the fetched contents hash to ${hash}. Build with updateLock (--update-lock) to accept the change.`,
+        )
+      }
+
+      const entry =
+        previous?.integrity === hash ? { ...previous, resolved: resolvedUrl } : { resolved: resolvedUrl, integrity: hash, fetchedAt: now().toISOString() }
+      changed ||= !previous || previous.integrity !== entry.integrity || previous.resolved !== entry.resolved
+      seen[url] = entry
+      imports[url] = entry
+    },
+
+    async save() {
+      if (!locked) {
+        return
+      }
+      const { imports } = await locked
+      // In update mode, imports no build reaches any more are dropped
+      const stale = options.update && Object.keys(imports).some((url) => !seen[url])
+      if (changed || stale) {
+        await fsPromises.writeFile(path, serialize(options.update ? seen : imports))
+        changed = false
+      }
+    },
+  }
+}
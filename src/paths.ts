@@ -0,0 +1,42 @@
+// Path helpers with `/` and `\` separators. They avoid the Node path module, so they also run
+// under esbuild-wasm in the browser.
+
+const ROOT = /^(?:[A-Za-z]:)?[\\/]?/
+
+/**
+ * Whether a path starts at a root, `/` or a Windows drive
+ */
+export function isAbsolutePath(path: string): boolean {
+  return /^(?:[\\/]|[A-Za-z]:)/.test(path)
+}
+
+/**
+ * Resolves the `.` and `..` segments of a path and separates its segments with `/`
+ */
+export function normalizePath(path: string): string {
+  const root = path.match(ROOT)?.[0] ?? ''
+  const segments: string[] = []
+  for (const segment of path.slice(root.length).split(/[\\/]/)) {
+    if (segment === '..') {
+      segments.pop()
+    } else if (segment && segment !== '.') {
+      segments.push(segment)
+    }
+  }
+  return `${root.replace('\\', '/')}${segments.join('/')}`
+}
+
+/**
+ * Resolves a path against a directory, absolute paths stay as they are
+ */
+export function joinPath(directory: string, path: string): string {
+  return normalizePath(isAbsolutePath(path) ? path : `${directory}/${path}`)
+}
+
+/**
+ * Directory of a file, `.` for a bare file name
+ */
+export function dirname(filePath: string): string {
+  const index = Math.max(filePath.lastIndexOf('/'), filePath.lastIndexOf('\\'))
+  return index < 0 ? '.' : filePath.slice(0, index) || '/'
+}
@@ -0,0 +1,108 @@
+import jsonld from 'jsonld'
+import { toJsonData } from './frontmatter.js'
+import { DocumentLoader } from './jsonld.js'
+import { EmitGraphOptions } from './types.js'
+
+interface Term {
+  termType: 'NamedNode' | 'BlankNode' | 'Literal' | 'DefaultGraph'
+  value: string
+  datatype?: { value: string }
+  language?: string
+}
+
+interface Quad {
+  subject: Term
+  predicate: Term
+  object: Term
+  graph: Term
+}
+
+const RDF_TYPE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type'
+const XSD_STRING = 'http://www.w3.org/2001/XMLSchema#string'
+const RDF_LANG_STRING = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#langString'
+
+function escapeLiteral(value: string): string {
+  return value.replace(/[\\"\n\r\t]/g, (character) => ({ '\\': '\\\\', '"': '\\"', '\n': '\\n', '\r': '\\r', '\t': '\\t' })[character] ?? character)
+}
+
+function turtleTerm(term: Term): string {
+  if (term.termType === 'BlankNode') {
+    return term.value.startsWith('_:') ? term.value : `_:${term.value}`
+  }
+  if (term.termType !== 'Literal') {
+    return `<${term.value}>`
+  }
+  const literal = `"${escapeLiteral(term.value)}"`
+  if (term.language) {
+    return `${literal}@${term.language}`
+  }
+  const datatype = term.datatype?.value
+  return datatype && datatype !== XSD_STRING && datatype !== RDF_LANG_STRING ? `${literal}^^<${datatype}>` : literal
+}
+
+/**
+ * Serializes the default graph of an RDF dataset as Turtle, grouping the triples of each subject
+ */
+export function toTurtle(quads: Quad[]): string {
+  const subjects = new Map<string, Map<string, string[]>>()
+  for (const quad of quads.filter(({ graph }) => graph.termType === 'DefaultGraph')) {
+    const predicates = subjects.get(turtleTerm(quad.subject)) ?? new Map<string, string[]>()
+    subjects.set(turtleTerm(quad.subject), predicates)
+    const predicate = quad.predicate.value === RDF_TYPE ? 'a' : turtleTerm(quad.predicate)
+    predicates.set(predicate, [...(predicates.get(predicate) ?? []), turtleTerm(quad.object)])
+  }
+
+  return [...subjects.entries()]
+    .map(([subject, predicates]) => {
+      const lines = [...predicates.entries()].map(([predicate, objects]) => `  ${predicate} ${objects.join(', ')}`)
+      return `${subject}\n${lines.join(' ;\n')} .\n`
+    })
+    .join('\n')
+}
+
+/**
+ * Serialized graph files by name, and the `@id`s that stayed relative for lack of a base
+ */
+export interface GraphFiles {
+  files: Record<string, string>
+  relativeIds: string[]
+}
+
+// Blank nodes and IRIs with a scheme, anything else is a relative reference that RDF cannot hold
+const ABSOLUTE_ID = /^(?:_:|[A-Za-z][A-Za-z\d+.-]*:)/
+
+function collectRelativeIds(node: unknown, ids: Set<string>): Set<string> {
+  if (Array.isArray(node)) {
+    node.forEach((item) => collectRelativeIds(item, ids))
+  } else if (typeof node === 'object' && node !== null) {
+    for (const [key, value] of Object.entries(node)) {
+      if (key === '@id' && typeof value === 'string' && !ABSOLUTE_ID.test(value)) {
+        ids.add(value)
+      } else {
+        collectRelativeIds(value, ids)
+      }
+    }
+  }
+  return ids
+}
+
+/**
+ * Merges the JSON-LD of every document into one flattened graph with expanded IRIs,
+ * and serializes it as the files `graph.jsonld`, `graph.nq` and `graph.ttl` as asked
+ */
+export async function createGraphFiles(
+  documents: Record<string, unknown>[],
+  documentLoader: DocumentLoader,
+  options: EmitGraphOptions = {},
+): Promise<GraphFiles> {
+  const flattened = await jsonld.flatten(toJsonData(documents) as jsonld.JsonLdDocument, undefined, { documentLoader, base: options.base })
+  const files: Record<string, string> = { 'graph.jsonld': `${JSON.stringify(flattened, null, 2)}\n` }
+
+  if (options.nquads) {
+    files['graph.nq'] = (await jsonld.toRDF(flattened, { format: 'application/n-quads' })) as string
+  }
+  if (options.turtle) {
+    files['graph.ttl'] = toTurtle((await jsonld.toRDF(flattened)) as Quad[])
+  }
+  return { files, relativeIds: [...collectRelativeIds(flattened, new Set())].sort() }
+}
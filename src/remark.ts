@@ -0,0 +1,16 @@
+import type { Plugin } from 'unified'
+
+export interface RemarkYamlLdOptions {
+  data: Record<string, unknown>
+}
+
+/**
+ * Attaches the normalized YAML-LD frontmatter to the mdast root and the vfile
+ * as `yamlLd`, the same field remark-mdxld uses, so later plugins can read it
+ */
+export const remarkYamlLd: Plugin<[RemarkYamlLdOptions]> = (options) => {
+  return function transformer(tree, file) {
+    file.data.yamlLd = options.data
+    Object.assign((tree.data ??= {}), { yamlLd: options.data })
+  }
+}
@@ -0,0 +1,93 @@
+import { DataPath } from './validate.js'
+
+/**
+ * A `{{name}}` placeholder naming no known value, at the path of the string holding it
+ */
+export class TemplateError extends Error {
+  constructor(
+    message: string,
+    readonly path: DataPath,
+  ) {
+    super(message)
+    this.name = 'TemplateError'
+  }
+}
+
+/**
+ * Looks up the value of a placeholder name, undefined when there is none
+ */
+export type TemplateVariables = (name: string) => Promise<unknown>
+
+const PLACEHOLDER = /\{\{\s*([\w$@.-]+)\s*\}\}/g
+const WORDS_PER_MINUTE = 200
+
+/**
+ * Counts the words of an MDX body, leaving out ESM statements and JSX tags
+ */
+export function countWords(body: string): number {
+  const text = body
+    .replace(/^(?:import|export)\s.*$/gm, '')
+    .replace(/<\/?[A-Za-z][^>]*>/g, ' ')
+    .replace(/\{[^{}]*\}/g, ' ')
+  return text.match(/[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu)?.length ?? 0
+}
+
+/**
+ * Reading time of a number of words as an ISO 8601 duration, the form of schema.org `timeRequired`
+ */
+export function readingTime(words: number): string {
+  return `PT${Math.max(1, Math.ceil(words / WORDS_PER_MINUTE))}M`
+}
+
+function templateValue(value: unknown): string {
+  return value instanceof Date ? value.toISOString() : typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value)
+}
+
+/**
+ * Replaces `{{name}}` placeholders in the strings of the data. A string that is a single
+ * placeholder takes the value as it is, so `"{{wordCount}}"` stays a number.
+ */
+export async function renderTemplates(data: Record<string, unknown>, variables: TemplateVariables): Promise<Record<string, unknown>> {
+  const lookup = async (name: string, path: DataPath): Promise<unknown> => {
+    const value = await variables(name)
+    if (value === undefined) {
+      throw new TemplateError(`Unknown template variable "${name}"`, path)
+    }
+    return value
+  }
+
+  const render = async (value: unknown, path: DataPath): Promise<unknown> => {
+    if (typeof value === 'string') {
+      const names = [...value.matchAll(PLACEHOLDER)].map((match) => match[1])
+      if (names.length === 0) {
+        return value
+      }
+      const whole = value.trim().match(new RegExp(`^${PLACEHOLDER.source}$`))
+      if (whole) {
+        return lookup(whole[1], path)
+      }
+      const values = new Map<string, string>()
+      for (const name of names) {
+        values.set(name, templateValue(await lookup(name, path)))
+      }
+      return value.replace(PLACEHOLDER, (_, name: string) => values.get(name) ?? '')
+    }
+    if (Array.isArray(value)) {
+      const items: unknown[] = []
+      for (const [index, item] of value.entries()) {
+        items.push(await render(item, [...path, index]))
+      }
+      return items
+    }
+    if (typeof value === 'object' && value !== null && !(value instanceof Date)) {
+      const entries: [string, unknown][] = []
+      for (const [key, child] of Object.entries(value)) {
+        entries.push([key, await render(child, [...path, key])])
+      }
+      return Object.fromEntries(entries)
+    }
+    return value
+  }
+
+  return (await render(data, [])) as Record<string, unknown>
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import * as esbuild from 'esbuild'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { mdxld } from '../index'
+import { moduleDeclaration } from '../declarations'
+import { MDXLDOptions } from '../types'
+
+describe('frontmatter in the body', () => {
+  let dir: string
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mdxld-scope-'))
+    // Calls components right away and keeps the text of elements, so rendering returns strings
+    await fs.writeFile(
+      path.join(dir, 'jsx-runtime.js'),
+      'const text = (children) => [children].flat().join("")\nexport const Fragment = (props) => text(props.children)\nexport const jsx = (type, props) => (typeof type === "function" ? type(props) : text(props.children))\nexport const jsxs = jsx\n',
+    )
+    await fs.writeFile(
+      path.join(dir, 'event.mdx'),
+      '---\n$type: Event\nname: Launch\nstartDate: 2024-06-01\nlocation:\n  name: Town Hall\n---\n\n{frontmatter.name} at {frontmatter.location.name} on {ld.startDate}\n',
+    )
+  })
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  const build = (options: MDXLDOptions) =>
+    esbuild.build({
+      entryPoints: [path.join(dir, 'event.mdx')],
+      outfile: path.join(dir, 'out', 'event.mjs'),
+      bundle: true,
+      format: 'esm',
+      alias: { 'react/jsx-runtime': path.join(dir, 'jsx-runtime.js') },
+      plugins: [mdxld(options)],
+      logLevel: 'silent',
+    })
+
+  it('should bind expressions in the body to the frontmatter and its alias', async () => {
+    await build({ frontmatterAlias: 'ld' })
+    const module = (await import(pathToFileURL(path.join(dir, 'out', 'event.mjs')).href)) as { default: (props: object) => string; ld: unknown }
+
+    expect(module.default({})).toBe('Launch at Town Hall on 2024-06-01T00:00:00.000Z')
+    expect(module.ld).toMatchObject({ $type: 'Event', name: 'Launch' })
+  })
+
+  it('should reject aliases that are not free identifiers', async () => {
+    await expect(build({ frontmatterAlias: 'jsonld' })).rejects.toThrow('frontmatterAlias must be an identifier that is not a reserved word')
+    for (const alias of ['my-data', 'class', 'yield', 'props', '_createMdxContent', '_components']) {
+      await expect(build({ frontmatterAlias: alias })).rejects.toThrow(`got "${alias}"`)
+    }
+  })
+
+  it('should declare the alias with the frontmatter type', () => {
+    expect(moduleDeclaration('{ name: string }', { frontmatterAlias: 'ld' })).toContain(
+      'export const frontmatter: Frontmatter\nexport const jsonld: Record<string, unknown>\nexport const ld: Frontmatter\n',
+    )
+  })
+})
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { PluginBuild } from 'esbuild'
+import { createBuildCache } from '../build-cache'
+import { mdxld } from '../wasm'
+import type { MDXLDWasmOptions } from '../types'
+import { createBuildStub, MockWithHandlers, remoteResponse } from './utils'
+import { mockFetch } from './setup'
+import type { ExtendedOnLoadResult, HttpHandlerArgs } from './http-import.test'
+
+describe('build cache', () => {
+  it('should evict entries the previous build did not use', () => {
+    const cache = createBuildCache<string>()
+    cache.set('a', 'A')
+    cache.set('b', 'B')
+    cache.sweep()
+
+    expect(cache.get('a')).toBe('A')
+    cache.sweep()
+    expect(cache.get('a')).toBe('A')
+    expect(cache.get('b')).toBeUndefined()
+
+    cache.clear()
+    expect(cache.get('a')).toBeUndefined()
+  })
+})
+
+describe('mdxld plugin - rebuilds', () => {
+  const sources = new Map<string, string>()
+  const readFile = vi.fn(async (filePath: string) => sources.get(filePath) ?? '')
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    sources.set('/docs/post.mdx', '---\n@type: Article\ntitle: First\n---\n\n# Post\n')
+  })
+
+  const setup = (options: MDXLDWasmOptions = {}) => {
+    const build = createBuildStub()
+    mdxld({ readFile, ...options }).setup(build as unknown as PluginBuild)
+    const handlers = (build.onLoad as MockWithHandlers<typeof build.onLoad>).handlers
+    const start = () => Promise.all(build.onStart.mock.calls.map(([callback]) => callback()))
+    const [[dispose]] = build.onDispose.mock.calls
+
+    const load = async (namespace: 'file' | 'http-url', path: string) => {
+      const callback = handlers?.get(namespace)
+      if (!callback) throw new Error(`${namespace} handler not found`)
+      const args: HttpHandlerArgs = { path, namespace, suffix: '', pluginData: null, with: {}, resolveDir: '/', kind: 'entry-point', importer: '' }
+      return (await callback(args)) as ExtendedOnLoadResult
+    }
+    return { load, start, dispose }
+  }
+
+  it('should reuse unchanged documents across rebuilds', async () => {
+    const { load, start } = setup()
+
+    await start()
+    const first = await load('file', '/docs/post.mdx')
+    await start()
+    expect(await load('file', '/docs/post.mdx')).toBe(first)
+
+    sources.set('/docs/post.mdx', '---\n@type: Article\ntitle: Second\n---\n\n# Post\n')
+    await start()
+    const changed = await load('file', '/docs/post.mdx')
+    expect(changed).not.toBe(first)
+    expect(changed.contents).toContain('"Second"')
+  })
+
+  it('should not share remote modules between plugin instances', async () => {
+    const url = 'https://example.com/shared.mdx'
+    const response = async () => remoteResponse('---\n$type: Article\n---\n\n# Shared\n')
+    mockFetch.mockImplementationOnce(response).mockImplementationOnce(response)
+
+    const atPrefix = await setup().load('http-url', url)
+    const dollarPrefix = await setup({ preferDollarPrefix: true }).load('http-url', url)
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    expect(atPrefix.contents).toContain('"@type": "Article"')
+    expect(dollarPrefix.contents).toContain('"$type": "Article"')
+  })
+
+  it('should drop remote modules on dispose', async () => {
+    const url = 'https://example.com/module.js'
+    mockFetch.mockImplementationOnce(async () => remoteResponse('export default 1')).mockImplementationOnce(async () => remoteResponse('export default 2'))
+    const { load, start, dispose } = setup()
+
+    await start()
+    await load('http-url', url)
+    await start()
+    await load('http-url', url)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+
+    dispose()
+    expect((await load('http-url', url)).contents).toBe('export default 2')
+  })
+})
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import type { PluginBuild } from 'esbuild'
+import { mdxld } from '../index'
+import { fetchCached } from '../cache'
+import { createHttpClient } from '../fetch'
+import { createFileCache } from '../file-cache'
+import type { HttpCacheEntry, HttpCacheStore } from '../types'
+import { createBuildStub, MockWithHandlers, remoteResponse } from './utils'
+import { mockFetch } from './setup'
+import type { ExtendedOnLoadResult, HttpHandlerArgs } from './http-import.test'
+
+const createMemoryCache = (entries: Record<string, HttpCacheEntry> = {}): HttpCacheStore & { entries: Map<string, HttpCacheEntry> } => {
+  const map = new Map(Object.entries(entries))
+  return {
+    entries: map,
+    get: async (url) => map.get(url),
+    set: async (url, entry) => {
+      map.set(url, entry)
+    },
+  }
+}
+
+describe('HTTP cache', () => {
+  const client = createHttpClient(globalThis.fetch)
+  const url = 'https://example.com/remote.mdx'
+  const now = 1_700_000_000_000
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should store responses with their validators and max-age', async () => {
+    mockFetch.mockImplementationOnce(async () => remoteResponse('# Remote', { headers: { etag: '"v1"', 'cache-control': 'public, max-age=60' } }))
+    const store = createMemoryCache()
+
+    expect((await fetchCached(client, url, store, { now })).contents).toBe('# Remote')
+    expect(store.entries.get(url)).toEqual({ contents: '# Remote', etag: '"v1"', lastModified: undefined, freshUntil: now + 60_000 })
+  })
+
+  it('should serve fresh entries without a request', async () => {
+    const store = createMemoryCache({ [url]: { contents: '# Cached', freshUntil: now + 1 } })
+
+    expect((await fetchCached(client, url, store, { now })).contents).toBe('# Cached')
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('should revalidate stale entries', async () => {
+    mockFetch.mockImplementationOnce(async () => remoteResponse('', { status: 304, headers: { 'cache-control': 'max-age=10' } }))
+    const store = createMemoryCache({ [url]: { contents: '# Cached', etag: '"v1"', lastModified: 'Mon, 01 Jan 2024 00:00:00 GMT', freshUntil: now } })
+
+    expect((await fetchCached(client, url, store, { now })).contents).toBe('# Cached')
+    expect(mockFetch).toHaveBeenCalledWith(
+      url,
+      expect.objectContaining({ headers: { 'If-None-Match': '"v1"', 'If-Modified-Since': 'Mon, 01 Jan 2024 00:00:00 GMT' } }),
+    )
+    expect(store.entries.get(url)?.freshUntil).toBe(now + 10_000)
+  })
+
+  it('should replace stale entries that changed', async () => {
+    mockFetch.mockImplementationOnce(async () => remoteResponse('# Changed', { headers: { etag: '"v2"' } }))
+    const store = createMemoryCache({ [url]: { contents: '# Cached', etag: '"v1"', freshUntil: now - 1 } })
+
+    expect((await fetchCached(client, url, store, { now })).contents).toBe('# Changed')
+    expect(store.entries.get(url)).toMatchObject({ contents: '# Changed', etag: '"v2"', freshUntil: now })
+  })
+
+  it('should not store responses marked no-store', async () => {
+    mockFetch.mockImplementationOnce(async () => remoteResponse('# Private', { headers: { 'cache-control': 'no-store' } }))
+    const store = createMemoryCache()
+
+    await fetchCached(client, url, store, { now })
+    expect(store.entries.size).toBe(0)
+  })
+
+  it('should only use the cache when offline', async () => {
+    const store = createMemoryCache({ [url]: { contents: '# Stale', freshUntil: 0 } })
+
+    expect((await fetchCached(client, url, store, { now, offline: true })).contents).toBe('# Stale')
+    await expect(fetchCached(client, 'https://example.com/other.mdx', store, { now, offline: true })).rejects.toThrow(
+      'https://example.com/other.mdx is not in the cache, cannot load it in offline mode',
+    )
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  describe('cacheDir', () => {
+    const load = async (options: Parameters<typeof mdxld>[0], urlPath: string) => {
+      const build = createBuildStub()
+      mdxld(options).setup(build as unknown as PluginBuild)
+      const callback = (build.onLoad as MockWithHandlers<typeof build.onLoad>).handlers?.get('http-url')
+      if (!callback) throw new Error('HTTP URL handler not found')
+
+      const args: HttpHandlerArgs = {
+        path: urlPath,
+        namespace: 'http-url',
+        suffix: '',
+        pluginData: null,
+        with: {},
+        resolveDir: '/',
+        kind: 'import-statement',
+        importer: '',
+      }
+      return (await callback(args)) as ExtendedOnLoadResult
+    }
+
+    it('should persist entries in the cache directory', async () => {
+      const cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mdxld-cache-'))
+      try {
+        const cache = createFileCache(cacheDir)
+        await cache.set(url, { contents: '# On disk', etag: '"v1"', freshUntil: now })
+
+        expect(await cache.get(url)).toEqual({ url, contents: '# On disk', etag: '"v1"', freshUntil: now })
+        expect(await cache.get('https://example.com/missing.mdx')).toBeUndefined()
+        expect(await fs.readdir(cacheDir)).toHaveLength(1)
+      } finally {
+        await fs.rm(cacheDir, { recursive: true, force: true })
+      }
+    })
+
+    it('should load HTTP imports from the cache directory offline', async () => {
+      const cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mdxld-cache-'))
+      try {
+        await createFileCache(cacheDir).set('https://example.com/offline.mdx', { contents: '# Offline', freshUntil: 0 })
+
+        const hit = await load({ cacheDir, offline: true }, 'https://example.com/offline.mdx')
+        expect(hit.contents).toContain('"Offline"')
+
+        const miss = await load({ cacheDir, offline: true }, 'https://example.com/uncached.mdx')
+        expect(miss.errors![0].text).toBe('https://example.com/uncached.mdx is not in the cache, cannot load it in offline mode')
+        expect(mockFetch).not.toHaveBeenCalled()
+      } finally {
+        await fs.rm(cacheDir, { recursive: true, force: true })
+      }
+    })
+  })
+})
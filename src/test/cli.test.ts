@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { promises as fs } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { cli } from '../cli/index'
+import { mockFetch, MockResponse } from './setup'
+
+describe('esbuild-mdxld CLI', () => {
+  const examplesDir = path.join(process.cwd(), 'examples')
+  let log: ReturnType<typeof vi.spyOn>
+  let error: ReturnType<typeof vi.spyOn>
+
+  beforeEach(() => {
+    process.exitCode = undefined
+    log = vi.spyOn(console, 'log').mockImplementation(() => {})
+    error = vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    process.exitCode = undefined
+    vi.restoreAllMocks()
+  })
+
+  it('should print the normalized frontmatter as JSON', async () => {
+    await cli(['inspect', path.join(examplesDir, 'basic/at-prefix.mdx')])
+
+    expect(process.exitCode).toBeUndefined()
+    const printed = JSON.parse(log.mock.calls[0][0] as string)
+    expect(printed['@type']).toBe('BlogPosting')
+    expect(printed.author).toEqual({ '@type': 'Person', name: 'John Doe', url: 'https://example.com/johndoe' })
+  })
+
+  it('should apply --prefer-dollar-prefix when inspecting', async () => {
+    await cli(['inspect', path.join(examplesDir, 'basic/at-prefix.mdx'), '--prefer-dollar-prefix'])
+
+    const printed = JSON.parse(log.mock.calls[0][0] as string)
+    expect(printed.$context).toBe('https://schema.org')
+    expect(printed['@context']).toBeUndefined()
+  })
+
+  it('should normalize $ keywords to @ with --keyword-style at', async () => {
+    await cli(['inspect', path.join(examplesDir, 'basic/dollar-prefix.mdx'), '--keyword-style', 'at'])
+
+    const printed = JSON.parse(log.mock.calls[0][0] as string)
+    expect(printed['@type']).toBe('Product')
+    expect(printed.offers['@type']).toBe('Offer')
+  })
+
+  it('should fail on invalid frontmatter', async () => {
+    await cli(['inspect', path.join(examplesDir, 'errors/invalid-yaml.mdx')])
+
+    expect(process.exitCode).toBe(1)
+    expect(log).not.toHaveBeenCalled()
+    expect(error).toHaveBeenCalledWith(`${path.join(examplesDir, 'errors/invalid-yaml.mdx')}:3:15: missed comma between flow collection entries`)
+  })
+
+  it('should build entries into the output directory', async () => {
+    const outdir = await fs.mkdtemp(path.join(os.tmpdir(), 'mdxld-cli-'))
+    try {
+      await cli(['build', path.join(examplesDir, 'basic/dollar-prefix.mdx'), '--outdir', outdir, '--prefer-dollar-prefix'])
+
+      expect(process.exitCode).toBeUndefined()
+      const output = await fs.readFile(path.join(outdir, 'dollar-prefix.js'), 'utf8')
+      expect(output).toContain('MDXContent as default')
+      expect(output).toContain('"$type": "Product"')
+    } finally {
+      await fs.rm(outdir, { recursive: true, force: true })
+    }
+  })
+
+  it('should send the imports of entries through the plugin', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mdxld-cli-'))
+    try {
+      const entry = path.join(dir, 'doc.mdx')
+      await fs.writeFile(entry, 'import Remote from "https://example.invalid/remote.mdx"\n\n<Remote />\n')
+      await cli(['build', entry, '--outdir', path.join(dir, 'out'), '--cache-dir', path.join(dir, 'cache'), '--offline'])
+
+      expect(process.exitCode).toBe(1)
+      await expect(fs.access(path.join(dir, 'out', 'doc.js'))).rejects.toThrow()
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('should check the default lockfile once --update-lock wrote it', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mdxld-cli-'))
+    const cwd = process.cwd()
+    try {
+      process.chdir(dir)
+      await fs.writeFile('doc.mdx', 'import Remote from "https://example.com/pinned.mdx"\n\n<Remote />\n')
+      mockFetch.mockImplementationOnce(async () => new MockResponse('# Pinned') as unknown as Response)
+      await cli(['build', path.join(dir, 'doc.mdx'), '--outdir', path.join(dir, 'dist'), '--update-lock'])
+      expect(process.exitCode).toBeUndefined()
+      await expect(fs.readFile('mdxld.lock.json', 'utf8')).resolves.toContain('https://example.com/pinned.mdx')
+
+      mockFetch.mockImplementationOnce(async () => new MockResponse('# Changed') as unknown as Response)
+      await cli(['build', path.join(dir, 'doc.mdx'), '--outdir', path.join(dir, 'dist')])
+      expect(process.exitCode).toBe(1)
+    } finally {
+      process.chdir(cwd)
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+
+  it('should print usage for unknown commands', async () => {
+    await cli(['publish'])
+
+    expect(process.exitCode).toBe(1)
+    expect(error.mock.calls[0][0]).toContain('Usage:')
+  })
+})
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import * as esbuild from 'esbuild'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { mdxld } from '../index'
+import { CollectionEntry, parseCollectionQuery, selectEntries } from '../collection'
+
+const entry = (slug: string, frontmatter: Record<string, unknown>): CollectionEntry => ({
+  slug,
+  path: `content/${slug}.mdx`,
+  file: `/project/content/${slug}.mdx`,
+  frontmatter,
+  jsonld: frontmatter,
+})
+
+describe('collections', () => {
+  it('should parse the glob, sort, limit and filters of an import', () => {
+    expect(parseCollectionQuery('mdxld:collection?glob=./content/*.mdx&sort=-datePublished,title&limit=5&$type=BlogPosting&draft=false')).toEqual({
+      glob: 'content/*.mdx',
+      sort: [
+        { field: 'datePublished', descending: true },
+        { field: 'title', descending: false },
+      ],
+      filters: [
+        ['$type', 'BlogPosting'],
+        ['draft', 'false'],
+      ],
+      limit: 5,
+    })
+    expect(() => parseCollectionQuery('mdxld:collection')).toThrow('mdxld:collection has no glob parameter')
+    expect(() => parseCollectionQuery('mdxld:collection?glob=*.mdx&limit=ten')).toThrow('must be a whole number')
+  })
+
+  it('should filter and sort entries by frontmatter fields', () => {
+    const entries = [
+      entry('old', { '@type': 'BlogPosting', datePublished: '2023-01-01', tags: ['yaml'] }),
+      entry('new', { '@type': 'BlogPosting', datePublished: '2024-05-01', tags: ['yaml', 'ld'] }),
+      entry('undated', { '@type': 'BlogPosting', tags: ['yaml'] }),
+      entry('event', { '@type': 'Event', datePublished: '2024-06-01' }),
+    ]
+
+    const query = parseCollectionQuery('mdxld:collection?glob=*.mdx&sort=-datePublished&$type=BlogPosting&tags=yaml')
+    expect(selectEntries(entries, query).map(({ slug }) => slug)).toEqual(['new', 'old', 'undated'])
+    expect(selectEntries(entries, { ...query, limit: 1, filters: [['tags', 'ld']] }).map(({ slug }) => slug)).toEqual(['new'])
+    expect(selectEntries(entries, { ...query, sort: [], filters: [] }).map(({ slug }) => slug)).toEqual(['event', 'new', 'old', 'undated'])
+  })
+
+  describe('plugin', () => {
+    let dir: string
+
+    beforeAll(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mdxld-collection-'))
+      await fs.mkdir(path.join(dir, 'content', 'blog', '2024'), { recursive: true })
+      await fs.writeFile(
+        path.join(dir, 'content', 'blog', 'first.mdx'),
+        '---\n@type: BlogPosting\ntitle: First\ndatePublished: 2024-01-15\n---\n\n# First post\n',
+      )
+      await fs.writeFile(
+        path.join(dir, 'content', 'blog', '2024', 'second.mdx'),
+        '---\n$type: BlogPosting\ntitle: Second\ndatePublished: 2024-03-01\n---\n\n# Second post\n',
+      )
+      await fs.writeFile(path.join(dir, 'content', 'blog', 'draft.mdx'), '---\n@type: BlogPosting\ntitle: Draft\ndraft: true\n---\n\n# Draft post\n')
+    })
+
+    afterAll(async () => {
+      await fs.rm(dir, { recursive: true, force: true })
+    })
+
+    const build = (contents: string) =>
+      esbuild.build({
+        stdin: { contents, resolveDir: dir },
+        absWorkingDir: dir,
+        bundle: true,
+        write: false,
+        format: 'esm',
+        external: ['react/jsx-runtime'],
+        plugins: [mdxld()],
+        logLevel: 'silent',
+      })
+
+    it('should bundle the matching documents with their metadata and lazy imports', async () => {
+      const result = await build('export { default } from "mdxld:collection?glob=content/blog/**/*.mdx&sort=-datePublished&limit=2"')
+      const output = result.outputFiles[0].text
+
+      expect(output).toContain('slug: "2024/second"')
+      expect(output).toContain('path: "content/blog/2024/second.mdx"')
+      expect(output).toContain('frontmatter: { "$type": "BlogPosting", "title": "Second", "datePublished": "2024-03-01T00:00:00.000Z" }')
+      expect(output.indexOf('slug: "2024/second"')).toBeLessThan(output.indexOf('slug: "first"'))
+      expect(output).toContain('"First post"')
+      expect(output).not.toContain('"Draft"')
+    })
+
+    it('should report frontmatter errors of listed documents', async () => {
+      await fs.writeFile(path.join(dir, 'content', 'broken.mdx'), '---\ntitle: [Broken\n---\n')
+      await expect(build('export { default } from "mdxld:collection?glob=content/*.mdx"')).rejects.toThrow('Invalid YAML syntax')
+    })
+  })
+})
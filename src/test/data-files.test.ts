@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import * as esbuild from 'esbuild'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { mdxld } from '../index'
+import { IncludeError, parseDataFile, resolveIncludes } from '../data-files'
+import { parseDocument } from '../core'
+
+describe('data files', () => {
+  const files = new Map([
+    ['/data/org.yamlld', '@type: Organization\nname: Acme\nlogo: !include ./logo.jsonld\n'],
+    ['/data/logo.jsonld', '{ "@type": "ImageObject", "url": "/logo.png" }'],
+    ['/data/loop.yamlld', 'self: !include ./loop.yamlld\n'],
+  ])
+  const readFile = async (file: string) => {
+    const contents = files.get(file)
+    if (contents === undefined) throw new Error(`ENOENT: ${file}`)
+    return contents
+  }
+
+  it('should parse YAML-LD and JSON-LD by extension', () => {
+    expect(parseDataFile('@type: Person\r\nname: Jane\r\n', 'jane.yaml-ld')).toEqual({
+      format: 'yaml',
+      source: '@type: Person\nname: Jane\n',
+      data: { '@type': 'Person', name: 'Jane' },
+    })
+    expect(parseDataFile('{"@type": "Person"}', 'jane.jsonld').data).toEqual({ '@type': 'Person' })
+  })
+
+  it('should replace !include tags with the data of the files, relative to the including file', async () => {
+    const document = parseDocument('---\ntitle: Hello\npublisher: !include ../data/org.yamlld\n---\n')
+    const included = await resolveIncludes(document.data, '/posts/hello.mdx', readFile)
+
+    expect(included.data).toEqual({
+      title: 'Hello',
+      publisher: { '@type': 'Organization', name: 'Acme', logo: { '@type': 'ImageObject', url: '/logo.png' } },
+    })
+    expect(Object.keys(included.files)).toEqual(['/data/org.yamlld', '/data/logo.jsonld'])
+  })
+
+  it('should fail on missing and circular includes at the path of the tag', async () => {
+    const missing = parseDocument('---\nauthors:\n  - !include ./nobody.yamlld\n---\n')
+    await expect(resolveIncludes(missing.data, '/posts/hello.mdx', readFile)).rejects.toMatchObject({
+      message: 'Cannot include ./nobody.yamlld: ENOENT: /posts/nobody.yamlld',
+      path: ['authors', 0],
+    })
+
+    const loop = parseDocument('---\nloop: !include ../data/loop.yamlld\n---\n')
+    await expect(resolveIncludes(loop.data, '/posts/hello.mdx', readFile)).rejects.toThrow(IncludeError)
+    await expect(resolveIncludes(loop.data, '/posts/hello.mdx', readFile)).rejects.toThrow('Circular !include of ./loop.yamlld')
+  })
+
+  describe('plugin', () => {
+    let dir: string
+
+    beforeAll(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mdxld-data-'))
+      await fs.mkdir(path.join(dir, 'data'))
+      await fs.writeFile(path.join(dir, 'data', 'org.yamlld'), '$context: https://schema.org\n$type: Organization\nname: Acme\n$price: 10\n')
+      await fs.writeFile(path.join(dir, 'data', 'jane.jsonld'), '{ "@type": "Person", "name": "Jane" }')
+      await fs.writeFile(path.join(dir, 'post.mdx'), '---\n@type: BlogPosting\npublisher: !include ./data/org.yamlld\n---\n\n# Hello\n')
+    })
+
+    afterAll(async () => {
+      await fs.rm(dir, { recursive: true, force: true })
+    })
+
+    const build = (contents: string, options = {}) =>
+      esbuild.build({
+        stdin: { contents, resolveDir: dir },
+        bundle: true,
+        write: false,
+        format: 'esm',
+        external: ['react/jsx-runtime'],
+        plugins: [mdxld({ keywordStyle: 'at', ...options })],
+        logLevel: 'silent',
+      })
+
+    it('should import data files as their normalized data', async () => {
+      const result = await build('export { default as org } from "./data/org.yamlld"\nexport { default as jane } from "./data/jane.jsonld"')
+      const output = result.outputFiles[0].text
+
+      expect(output).toContain('var org_default = { "@context": "https://schema.org", "@type": "Organization", name: "Acme", $price: 10 }')
+      expect(output).toContain('var jane_default = { "@type": "Person", name: "Jane" }')
+    })
+
+    it('should embed included files in frontmatter and JSON-LD', async () => {
+      const result = await build('export * from "./post.mdx"', { jsonLdScript: true })
+      const output = result.outputFiles[0].text
+
+      expect(output).toMatch(/"publisher": \{\s+"@context": "https:\/\/schema.org",\s+"@type": "Organization"/)
+      expect(output).toContain('"publisher":{"@context":"https://schema.org","@type":"Organization"')
+    })
+
+    it('should validate data files like frontmatter', async () => {
+      await expect(build('import org from "./data/org.yamlld"', { schemas: { Organization: ['url'] } })).rejects.toMatchObject({
+        errors: [expect.objectContaining({ location: expect.objectContaining({ line: 2, lineText: '$type: Organization' }) })],
+      })
+    })
+  })
+})
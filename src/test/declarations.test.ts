@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as esbuild from 'esbuild'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { mdxld } from '../index'
+import { createTypeInference, moduleDeclaration } from '../declarations'
+import type { MDXLDOptions } from '../types'
+
+describe('declarations', () => {
+  it('should infer types from frontmatter values', () => {
+    const infer = createTypeInference()
+
+    expect(
+      infer({
+        '@type': 'BlogPosting',
+        title: 'Hello',
+        draft: false,
+        views: 3,
+        published: new Date('2024-01-15'),
+        tags: ['yaml', 'ld'],
+        mixed: [1, 'two'],
+        empty: [],
+        author: { name: 'Ada', url: null },
+      }),
+    ).toBe(
+      [
+        '{',
+        '  "@type": "BlogPosting"',
+        '  title: string',
+        '  draft: boolean',
+        '  views: number',
+        '  published: string',
+        '  tags: string[]',
+        '  mixed: (number | string)[]',
+        '  empty: unknown[]',
+        '  author: {',
+        '    name: string',
+        '    url: null',
+        '  }',
+        '}',
+      ].join('\n'),
+    )
+  })
+
+  it('should type properties from the schema of a node type', () => {
+    const infer = createTypeInference({
+      Event: {
+        type: 'object',
+        required: ['name', 'startDate'],
+        properties: {
+          name: { type: 'string' },
+          startDate: { type: 'string', format: 'date' },
+          endDate: { type: 'string' },
+          eventStatus: { enum: ['EventScheduled', 'EventCancelled'] },
+          location: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] },
+        },
+      },
+      Place: ['address'],
+    })
+
+    expect(infer({ $type: 'schema:Event', name: 'Conf', startDate: new Date('2024-06-01'), location: { $type: 'Place', name: 'Hall' } })).toBe(
+      [
+        '{',
+        '  $type: "schema:Event"',
+        '  name: string',
+        '  startDate: string',
+        '  location: {',
+        '    name: string',
+        '  }',
+        '  endDate?: string',
+        '  eventStatus?: "EventScheduled" | "EventCancelled"',
+        '}',
+      ].join('\n'),
+    )
+    expect(infer({ $type: 'Place', name: 'Hall' })).toContain('address: unknown')
+  })
+
+  it('should declare the exports enabled by the options', () => {
+    const declaration = moduleDeclaration('{ title: string }', { resolveContexts: true, jsonLdScript: true })
+
+    expect(declaration).toContain('export type Frontmatter = { title: string }')
+    expect(declaration).toContain('export const frontmatter: Frontmatter')
+    expect(declaration).toContain('export const jsonldCompacted: Record<string, unknown>')
+    expect(declaration).toContain('export const jsonLdScript: string')
+    expect(declaration).not.toContain('JsonLd()')
+  })
+
+  describe('plugin', () => {
+    let dir: string
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mdxld-declarations-'))
+      await fs.mkdir(path.join(dir, 'events'))
+      await fs.writeFile(path.join(dir, 'post.mdx'), '---\n@type: BlogPosting\ntitle: Hello\n---\n\n# Post\n')
+      await fs.writeFile(path.join(dir, 'events', 'post.mdx'), '---\n$type: Event\nname: Conf\n---\n\n# Event\n')
+    })
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true })
+    })
+
+    const build = (options: MDXLDOptions) =>
+      esbuild.build({
+        entryPoints: [path.join(dir, 'post.mdx'), path.join(dir, 'events', 'post.mdx')],
+        outdir: path.join(dir, 'dist'),
+        bundle: true,
+        write: false,
+        format: 'esm',
+        external: ['react/jsx-runtime'],
+        plugins: [mdxld(options)],
+        logLevel: 'silent',
+      })
+
+    it('should write a declaration next to each document', async () => {
+      await build({ declarations: true, schemas: { Event: { properties: { startDate: { type: 'string' } } } } })
+
+      const declaration = await fs.readFile(path.join(dir, 'events', 'post.mdx.d.ts'), 'utf8')
+      expect(declaration).toMatch(/^\/\/ Generated by esbuild-mdxld/)
+      expect(declaration).toContain('  $type: "Event"\n  name: string\n  startDate?: string\n')
+      expect(await fs.readFile(path.join(dir, 'post.mdx.d.ts'), 'utf8')).toContain('"@type": "BlogPosting"')
+    })
+
+    it('should write a single ambient declaration file', async () => {
+      const file = path.join(dir, 'mdx.d.ts')
+      await build({ declarations: file })
+
+      const declaration = await fs.readFile(file, 'utf8')
+      expect(declaration.match(/declare module '\*\/post\.mdx'/g)).toHaveLength(1)
+      expect(declaration).toContain('"@type": "BlogPosting"')
+      expect(declaration).toContain('} | {')
+      expect(declaration).toContain('$type: "Event"')
+    })
+
+    it('should drop documents a rebuild no longer loads from the ambient declaration file', async () => {
+      const file = path.join(dir, 'mdx.d.ts')
+      const entry = path.join(dir, 'index.js')
+      await fs.writeFile(entry, "import './post.mdx'\nimport './events/post.mdx'\n")
+      const context = await esbuild.context({
+        entryPoints: [entry],
+        outdir: path.join(dir, 'dist'),
+        bundle: true,
+        write: false,
+        format: 'esm',
+        external: ['react/jsx-runtime'],
+        plugins: [mdxld({ declarations: file })],
+        logLevel: 'silent',
+      })
+      try {
+        await context.rebuild()
+        expect(await fs.readFile(file, 'utf8')).toContain('$type: "Event"')
+
+        await fs.writeFile(entry, "import './post.mdx'\n")
+        await context.rebuild()
+        const declaration = await fs.readFile(file, 'utf8')
+        expect(declaration).not.toContain('$type: "Event"')
+        // The unchanged document is reused from the first build and stays declared
+        expect(declaration).toContain('"@type": "BlogPosting"')
+      } finally {
+        await context.dispose()
+      }
+    })
+  })
+})
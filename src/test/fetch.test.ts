@@ -0,0 +1,132 @@
+import { describe, it, expect, vi } from 'vitest'
+import * as esbuild from 'esbuild'
+import type { OnResolveResult, PluginBuild } from 'esbuild'
+import { mdxld } from '../index'
+import { createHttpClient, isHostAllowed } from '../fetch'
+import { createBuildStub, MockWithHandlers, remoteResponse } from './utils'
+import { mockFetch } from './setup'
+import type { HttpHandlerArgs } from './http-import.test'
+
+describe('HTTP client', () => {
+  const url = 'https://api.example.com/remote.mdx'
+
+  it('should send headers configured for the host', async () => {
+    const fetchImpl = vi.fn(async () => remoteResponse('# Remote'))
+    const client = createHttpClient(fetchImpl, {
+      headers: { '*.example.com': { Authorization: 'Bearer token' }, 'other.com': { 'X-Other': '1' } },
+    })
+
+    await client(url, { Accept: 'text/markdown' })
+    expect(fetchImpl).toHaveBeenCalledWith(url, expect.objectContaining({ headers: { Authorization: 'Bearer token', Accept: 'text/markdown' } }))
+  })
+
+  it('should retry server and network errors with backoff', async () => {
+    const fetchImpl = vi
+      .fn()
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(remoteResponse('', { status: 503 }))
+      .mockResolvedValueOnce(remoteResponse('# Remote'))
+    const client = createHttpClient(fetchImpl, { retryDelay: 0 })
+
+    expect((await client(url)).text).toBe('# Remote')
+    expect(fetchImpl).toHaveBeenCalledTimes(3)
+  })
+
+  it('should return the last response once retries run out', async () => {
+    const fetchImpl = vi.fn(async () => remoteResponse('', { status: 500 }))
+    const client = createHttpClient(fetchImpl, { retries: 1, retryDelay: 0 })
+
+    expect((await client(url)).status).toBe(500)
+    expect(fetchImpl).toHaveBeenCalledTimes(2)
+  })
+
+  it('should abort requests that take longer than the timeout', async () => {
+    const fetchImpl = vi.fn(
+      (_url: RequestInfo | URL, init?: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => init?.signal?.addEventListener('abort', () => reject(new Error('The operation was aborted')))),
+    )
+    const client = createHttpClient(fetchImpl, { timeout: 10, retries: 0 })
+
+    await expect(client(url)).rejects.toThrow(`Request to ${url} timed out after 10ms`)
+  })
+
+  it('should reject responses larger than maxResponseSize', async () => {
+    const client = (body: string, headers?: Record<string, string>) =>
+      createHttpClient(async () => remoteResponse(body, { headers }), { maxResponseSize: 4, retries: 0 })(url)
+
+    await expect(client('', { 'content-length': '1000' })).rejects.toThrow(`Response from ${url} is larger than maxResponseSize (4 bytes)`)
+    await expect(client('ééé')).rejects.toThrow('larger than maxResponseSize')
+    expect((await client('# Ok')).text).toBe('# Ok')
+  })
+
+  it('should stop reading streamed bodies at maxResponseSize', async () => {
+    const cancel = vi.fn()
+    const chunks = [new TextEncoder().encode('# Far'), new TextEncoder().encode(' too long')]
+    const reader = { read: async () => (chunks.length > 0 ? { done: false, value: chunks.shift() } : { done: true }), cancel }
+    const streamed = { ...remoteResponse(''), body: { getReader: () => reader } } as unknown as Response
+    const client = createHttpClient(async () => streamed, { maxResponseSize: 8, retries: 0 })
+
+    await expect(client(url)).rejects.toThrow('larger than maxResponseSize')
+    expect(cancel).toHaveBeenCalled()
+    expect(chunks).toHaveLength(0)
+  })
+
+  it('should match allowed and denied host patterns', () => {
+    const options = { allowHosts: ['example.com', '*.example.com'], denyHosts: ['private.example.com'] }
+
+    expect(isHostAllowed('https://example.com/a.mdx', options)).toBe(true)
+    expect(isHostAllowed('https://CDN.Example.com/a.mdx', options)).toBe(true)
+    expect(isHostAllowed('https://private.example.com/a.mdx', options)).toBe(false)
+    expect(isHostAllowed('https://example.org/a.mdx', options)).toBe(false)
+    expect(isHostAllowed('https://badexample.com/a.mdx', { allowHosts: ['*.example.com'] })).toBe(false)
+    expect(isHostAllowed('https://anything.org/a.mdx', { allowHosts: ['*'] })).toBe(true)
+  })
+
+  it('should not follow redirects to blocked hosts', async () => {
+    const fetchImpl = vi.fn(async () => remoteResponse('', { status: 302, headers: { location: 'https://evil.com/payload.js' } }))
+    const client = createHttpClient(fetchImpl, { allowHosts: ['*.example.com'] })
+
+    await expect(client(url)).rejects.toThrow('Requests to evil.com are blocked by the allowHosts and denyHosts options')
+    expect(fetchImpl).toHaveBeenCalledTimes(1)
+    expect(fetchImpl).toHaveBeenCalledWith(url, expect.objectContaining({ redirect: 'manual' }))
+  })
+
+  it('should only send the headers of the host each redirect leads to', async () => {
+    const fetchImpl = vi.fn(async (location: string | URL | Request) =>
+      location === url ? remoteResponse('', { status: 302, headers: { location: 'https://cdn.other.com/remote.mdx' } }) : remoteResponse('# Remote'),
+    )
+    const client = createHttpClient(fetchImpl, { headers: { 'api.example.com': { Authorization: 'Bearer token' } } })
+
+    expect((await client(url, { Accept: 'text/markdown' })).text).toBe('# Remote')
+    expect(fetchImpl).toHaveBeenNthCalledWith(1, url, expect.objectContaining({ headers: { Authorization: 'Bearer token', Accept: 'text/markdown' } }))
+    expect(fetchImpl).toHaveBeenNthCalledWith(2, 'https://cdn.other.com/remote.mdx', expect.objectContaining({ headers: { Accept: 'text/markdown' } }))
+  })
+})
+
+describe('mdxld plugin - blocked hosts', () => {
+  it('should fail imports of blocked hosts with the importer', async () => {
+    const build = createBuildStub()
+    mdxld({ http: { denyHosts: ['*.tracker.com'] } }).setup(build as unknown as PluginBuild)
+    const resolve = (build.onResolve as MockWithHandlers<typeof build.onResolve>).handlers?.get(String(/^https?:\/\//))
+    if (!resolve) throw new Error('HTTP resolver not found')
+
+    const result = (await resolve({ path: 'https://cdn.tracker.com/pixel.js', importer: '/docs/post.mdx' } as HttpHandlerArgs)) as OnResolveResult
+    expect(result.errors![0].text).toBe(
+      'Cannot import https://cdn.tracker.com/pixel.js from /docs/post.mdx: the host is blocked by the allowHosts and denyHosts options',
+    )
+    expect(result.path).toBeUndefined()
+  })
+
+  it('should report blocked imports inside remote modules during a build', async () => {
+    mockFetch.mockImplementationOnce(async () => remoteResponse('export * from "https://other.org/lib.js"'))
+    const build = esbuild.build({
+      stdin: { contents: 'import "https://example.com/entry.js"' },
+      bundle: true,
+      write: false,
+      plugins: [mdxld({ http: { allowHosts: ['example.com'] } })],
+      logLevel: 'silent',
+    })
+
+    await expect(build).rejects.toThrow('Cannot import https://other.org/lib.js from https://example.com/entry.js')
+  })
+})
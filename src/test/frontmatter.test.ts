@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest'
+import * as esbuild from 'esbuild'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { parseDocument } from '../core'
+import { FrontmatterSyntaxError, parseFrontmatter } from '../frontmatter'
+import { mdxld } from '../index'
+
+describe('frontmatter formats', () => {
+  it('should parse TOML tables, arrays and values', () => {
+    const toml = [
+      '# A post',
+      '"@type" = "BlogPosting"',
+      'title = "Hello \\"TOML\\""',
+      "path = 'C:\\posts'",
+      'views = 1_024',
+      'rating = 4.5',
+      'draft = false',
+      'datePublished = 2024-01-15',
+      'tags = [',
+      '  "yaml",',
+      '  "toml", # trailing comma',
+      ']',
+      'author = { "@type" = "Person", name = "Jane" }',
+      'site.name = "Blog"',
+      '',
+      '[publisher]',
+      '"@type" = "Organization"',
+      '',
+      '[[comments]]',
+      'text = """',
+      'First line',
+      'second line"""',
+      '',
+      '[[comments]]',
+      "text = '''raw \\n'''",
+    ].join('\n')
+
+    expect(parseFrontmatter('toml', toml)).toEqual({
+      '@type': 'BlogPosting',
+      title: 'Hello "TOML"',
+      path: 'C:\\posts',
+      views: 1024,
+      rating: 4.5,
+      draft: false,
+      datePublished: new Date('2024-01-15'),
+      tags: ['yaml', 'toml'],
+      author: { '@type': 'Person', name: 'Jane' },
+      site: { name: 'Blog' },
+      publisher: { '@type': 'Organization' },
+      comments: [{ text: 'First line\nsecond line' }, { text: 'raw \\n' }],
+    })
+  })
+
+  it('should normalize TOML and JSON frontmatter like YAML-LD', () => {
+    const toml = parseDocument('+++\n"@type" = "BlogPosting"\ntitle = "Hello"\n+++\n\n# Hello\n', { preferDollarPrefix: true })
+    expect(toml).toMatchObject({ format: 'toml', data: { '@type': 'BlogPosting', title: 'Hello' }, frontmatter: { $type: 'BlogPosting', title: 'Hello' } })
+    expect(toml.body).toBe('\n\n\n\n\n# Hello\n')
+
+    const json = { '@type': 'BlogPosting', title: 'Hello' }
+    expect(parseDocument(`;;;\n${JSON.stringify(json)}\n;;;\n# Hello\n`)).toMatchObject({ format: 'json', data: json })
+    expect(parseDocument(`\`\`\`json\n${JSON.stringify(json, null, 2)}\n\`\`\`\n# Hello\n`)).toMatchObject({ format: 'json', data: json })
+  })
+
+  it('should read documents with a byte order mark and CRLF line endings', () => {
+    const document = parseDocument('\uFEFF---\r\n@type: BlogPosting\r\ntitle: Hello\r\n---\r\n\r\n# Hello\r\n')
+
+    expect(document.data).toEqual({ '@type': 'BlogPosting', title: 'Hello' })
+    expect(document.body).toBe('\n\n\n\n\n# Hello\n')
+  })
+
+  it('should locate syntax errors in the document', () => {
+    const error = (source: string) => {
+      try {
+        parseDocument(source)
+      } catch (error) {
+        return error
+      }
+      throw new Error('Expected a syntax error')
+    }
+
+    expect(error('+++\ntitle = "Hello"\ntags = [1,\n+++\n')).toMatchObject({ format: 'TOML', message: 'unfinished array', line: 3, lineText: 'tags = [1,' })
+    expect(error('+++\ntitle = "Hello"\ntitle = "Again"\n+++\n')).toMatchObject({
+      format: 'TOML',
+      line: 3,
+      column: 0,
+      message: 'trying to redefine an already defined table or value',
+    })
+    expect(error('+++\nviews = 1__024\n+++\n')).toMatchObject({ format: 'TOML', message: 'illegal underscore', line: 2 })
+    expect(error(';;;\n{\n  "title": "Hello",\n}\n;;;\n')).toBeInstanceOf(FrontmatterSyntaxError)
+    expect(error(';;;\n["not", "an", "object"]\n;;;\n')).toMatchObject({ format: 'JSON', message: 'Frontmatter must be an object' })
+  })
+
+  it('should report TOML errors at their line in builds', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mdxld-frontmatter-'))
+    await fs.writeFile(path.join(dir, 'post.mdx'), '+++\r\ntitle = "Hello"\r\ndraft = maybe\r\n+++\r\n\r\n# Hello\r\n')
+
+    try {
+      const build = esbuild.build({ entryPoints: [path.join(dir, 'post.mdx')], write: false, plugins: [mdxld()], logLevel: 'silent' })
+      const failure = (await build.catch((error: unknown) => error)) as esbuild.BuildFailure
+
+      expect(failure.errors[0].text).toBe('Invalid TOML syntax: invalid value')
+      expect(failure.errors[0].location).toMatchObject({ line: 3, column: 8, lineText: 'draft = maybe' })
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+})
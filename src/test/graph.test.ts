@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import * as esbuild from 'esbuild'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { mdxld } from '../index'
+import { collectNodes, GraphNode, linkReferences } from '../graph'
+
+describe('document graph', () => {
+  const jane = { '@id': '/people/jane', '@type': 'Person', name: 'Jane' }
+
+  it('should collect nodes with an @id at any depth', () => {
+    const nodes = collectNodes({ '@id': '/posts/hello', author: jane, editor: { '@id': '/people/joe' } }, 'post.mdx')
+
+    expect(nodes.map(({ id }) => id)).toEqual(['/posts/hello', '/people/jane'])
+    expect(nodes[1]).toEqual({ id: '/people/jane', file: 'post.mdx', data: jane })
+  })
+
+  it('should embed referenced nodes and report dangling references', () => {
+    const nodes = new Map<string, GraphNode>([['/people/jane', { id: '/people/jane', file: 'jane.mdx', data: jane }]])
+    const linked = linkReferences({ title: 'Hello', authors: [{ $id: '/people/jane' }], editor: { '@id': '/people/joe' } }, nodes, 'post.mdx')
+
+    expect(linked.data).toEqual({ title: 'Hello', authors: [jane], editor: { '@id': '/people/joe' } })
+    expect(linked.dangling).toEqual([{ id: '/people/joe', path: ['editor', '@id'] }])
+    expect(linked.files).toEqual(['jane.mdx'])
+  })
+
+  it('should leave references to IRIs outside of the graph alone', () => {
+    const joe = { '@id': 'https://example.com/people/joe', '@type': 'Person' }
+    const nodes = new Map<string, GraphNode>([[joe['@id'], { id: joe['@id'], file: 'joe.mdx', data: joe }]])
+    const data = {
+      sameAs: [{ '@id': 'https://twitter.com/jane' }],
+      publisher: { '@id': 'https://acme.org/#org' },
+      license: { '@id': 'cc:BY-4.0' },
+      editor: { '@id': 'https://example.com/people/nobody' },
+    }
+    const linked = linkReferences(data, nodes, 'post.mdx')
+
+    expect(linked.data).toEqual(data)
+    expect(linked.dangling).toEqual([{ id: 'https://example.com/people/nobody', path: ['editor', '@id'] }])
+  })
+
+  describe('plugin', () => {
+    let dir: string
+
+    beforeAll(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mdxld-graph-'))
+      await fs.mkdir(path.join(dir, 'content', 'people'), { recursive: true })
+      await fs.writeFile(path.join(dir, 'content', 'people', 'jane.mdx'), '---\n@id: /people/jane\n@type: Person\nname: Jane Doe\n---\n\n# Jane\n')
+      await fs.writeFile(
+        path.join(dir, 'content', 'post.mdx'),
+        '---\n@type: BlogPosting\ntitle: Hello\nauthor:\n  @id: /people/jane\neditor:\n  @id: /people/nobody\n---\n\n# Hello\n',
+      )
+    })
+
+    afterAll(async () => {
+      await fs.rm(dir, { recursive: true, force: true })
+    })
+
+    it('should resolve references across documents in exports and JSON-LD', async () => {
+      const result = await esbuild.build({
+        entryPoints: [path.join(dir, 'content', 'post.mdx')],
+        absWorkingDir: dir,
+        bundle: true,
+        write: false,
+        format: 'esm',
+        external: ['react/jsx-runtime'],
+        plugins: [mdxld({ graph: 'content/**/*.mdx', jsonLdScript: true })],
+        logLevel: 'silent',
+      })
+      const output = result.outputFiles[0].text
+
+      const embedded = /"author": \{\s+"@id": "\/people\/jane",\s+"@type": "Person",\s+"name": "Jane Doe"\s+\}/g
+      expect(output.match(embedded)).toHaveLength(2)
+      expect(output).toContain('"author":{"@id":"/people/jane","@type":"Person","name":"Jane Doe"}')
+      expect(result.warnings).toHaveLength(1)
+      expect(result.warnings[0].text).toBe('No document in the graph defines @id "/people/nobody"')
+      expect(result.warnings[0].location).toMatchObject({ line: 7, lineText: '  @id: /people/nobody' })
+    })
+  })
+})
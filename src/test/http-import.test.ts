@@ -1,8 +1,9 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import * as esbuild from 'esbuild'
 import { mdxld } from '../index'
-import { createBuildStub, MockWithHandlers } from './utils'
+import { createBuildStub, MockWithHandlers, remoteResponse } from './utils'
 import { mockFetch } from './setup'
-import type { PluginBuild, OnLoadArgs, OnLoadResult, OnResolveArgs } from 'esbuild'
+import type { PluginBuild, OnLoadArgs, OnLoadResult, OnResolveArgs, OnResolveResult } from 'esbuild'
 
 export type HttpHandlerArgs = OnLoadArgs & OnResolveArgs & { resolveDir: string }
 export type ExtendedOnLoadResult = OnLoadResult & { path?: string }
@@ -43,9 +44,10 @@ describe('mdxld plugin - HTTP imports', () => {
     }
 
     const result = (await callback(args)) as ExtendedOnLoadResult
-    expect(result.contents).toBe('# Test Content')
-    expect(result.loader).toBe('mdx')
-    expect(mockFetch).toHaveBeenCalledWith('https://example.com/test.mdx')
+    expect(result.contents).toContain('"Test Content"')
+    expect(result.contents).toContain('export default function MDXContent')
+    expect(result.loader).toBe('js')
+    expect(mockFetch).toHaveBeenCalledWith('https://example.com/test.mdx', expect.anything())
   })
 
   it('should handle HTTP import errors', async () => {
@@ -67,8 +69,8 @@ describe('mdxld plugin - HTTP imports', () => {
     const result = (await callback(args)) as ExtendedOnLoadResult
     expect(result.errors).toBeDefined()
     expect(result.errors![0].text).toBe('HTTP 404: Not Found')
-    expect(result.loader).toBe('mdx')
-    expect(mockFetch).toHaveBeenCalledWith('https://example.com/error.mdx')
+    expect(result.loader).toBeUndefined()
+    expect(mockFetch).toHaveBeenCalledWith('https://example.com/error.mdx', expect.anything())
   })
 
   it('should cache HTTP responses', async () => {
@@ -89,15 +91,93 @@ describe('mdxld plugin - HTTP imports', () => {
 
     // First request
     const result1 = (await callback(args)) as ExtendedOnLoadResult
-    expect(result1.contents).toBe('# Cached Content')
-    expect(result1.loader).toBe('mdx')
+    expect(result1.contents).toContain('"Cached Content"')
+    expect(result1.loader).toBe('js')
 
     // Second request should use cache
     const result2 = (await callback(args)) as ExtendedOnLoadResult
-    expect(result2.contents).toBe('# Cached Content')
-    expect(result2.loader).toBe('mdx')
+    expect(result2.contents).toBe(result1.contents)
 
     // Fetch should only be called once due to caching
     expect(mockFetch).toHaveBeenCalledTimes(1)
   })
+
+  describe('imports inside remote modules', () => {
+    const load = async (url: string) => {
+      const callback = getHandlerForNamespace('http-url')
+      if (!callback) throw new Error('HTTP URL handler not found')
+      const args: HttpHandlerArgs = {
+        path: url,
+        namespace: 'http-url',
+        suffix: '',
+        pluginData: null,
+        with: {},
+        resolveDir: '',
+        kind: 'import-statement',
+        importer: '',
+      }
+      return (await callback(args)) as ExtendedOnLoadResult
+    }
+
+    const resolve = (path: string, importer: string, pluginData?: unknown) => {
+      const callback = build.onResolve.handlers?.get(String(/^\.{0,2}\//))
+      if (!callback) throw new Error('HTTP URL resolver not found')
+      const args = { path, importer, pluginData, namespace: 'http-url', resolveDir: '', kind: 'import-statement', with: {} }
+      return callback(args as unknown as HttpHandlerArgs) as unknown as OnResolveResult
+    }
+
+    it('should resolve relative imports against the importer URL', () => {
+      expect(resolve('./x.mdx', 'https://example.com/docs/page.mdx')).toEqual({ path: 'https://example.com/docs/x.mdx', namespace: 'http-url' })
+      expect(resolve('../lib.js', 'https://example.com/docs/page.mdx')).toEqual({ path: 'https://example.com/lib.js', namespace: 'http-url' })
+      expect(resolve('/root.js', 'https://example.com/docs/page.mdx')).toEqual({ path: 'https://example.com/root.js', namespace: 'http-url' })
+    })
+
+    it('should resolve against the URL a redirect ended at', async () => {
+      mockFetch.mockImplementationOnce(async () => remoteResponse('export default 1', {}, 'https://cdn.example.com/v2/index.js'))
+
+      const result = await load('https://example.com/latest/index.js')
+      expect(result.pluginData).toEqual({ url: 'https://cdn.example.com/v2/index.js' })
+      expect(resolve('./util.js', 'https://example.com/latest/index.js', result.pluginData).path).toBe('https://cdn.example.com/v2/util.js')
+    })
+
+    it('should pick the loader from the extension or Content-Type', async () => {
+      mockFetch
+        .mockImplementationOnce(async () => remoteResponse('export const x: number = 1', { headers: { 'content-type': 'text/plain' } }))
+        .mockImplementationOnce(async () => remoteResponse('{"a":1}', { headers: { 'content-type': 'application/json; charset=utf-8' } }))
+        .mockImplementationOnce(async () => remoteResponse('# Remote', { headers: { 'content-type': 'text/markdown' } }))
+
+      expect((await load('https://example.com/loaders/mod.ts')).loader).toBe('ts')
+      expect((await load('https://example.com/loaders/data')).loader).toBe('json')
+      const markdown = await load('https://example.com/loaders/readme')
+      expect(markdown.loader).toBe('js')
+      expect(markdown.contents).toContain('export default function MDXContent')
+    })
+
+    it('should resolve bare imports from the project directory', async () => {
+      mockFetch.mockImplementationOnce(async () => remoteResponse('import x from "pkg"'))
+
+      expect((await load('https://example.com/bare/mod.js')).resolveDir).toBe(process.cwd())
+    })
+
+    it('should bundle remote modules with relative imports', async () => {
+      const modules: Record<string, string> = {
+        'https://example.com/bundle/main.js': 'import { greet } from "./lib/greet.ts"\nimport data from "../data.json"\nexport default greet(data.name)',
+        'https://example.com/bundle/lib/greet.ts': 'export const greet = (name: string): string => `Hello ${name}`',
+        'https://example.com/data.json': '{"name":"remote"}',
+      }
+      mockFetch.mockImplementation(async (input) => remoteResponse(modules[String(input)]))
+
+      const result = await esbuild.build({
+        stdin: { contents: 'export { default } from "https://example.com/bundle/main.js"' },
+        bundle: true,
+        write: false,
+        format: 'esm',
+        plugins: [mdxld()],
+        logLevel: 'silent',
+      })
+      expect(result.outputFiles[0].text).toContain('Hello ${name}')
+      expect(result.outputFiles[0].text).toContain('"remote"')
+      expect(mockFetch).toHaveBeenCalledTimes(3)
+    })
+  })
 })
@@ -1,13 +1,11 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
+import * as esbuild from 'esbuild'
 import { Plugin } from 'esbuild'
 import { mdxld } from '../index'
-import * as fs from 'node:fs/promises'
 import path from 'node:path'
 import { createBuildStub, setupTestPlugin, MockWithHandlers } from './utils'
 import type { ExtendedOnLoadResult } from './http-import.test'
 
-vi.mock('node:fs/promises')
-
 describe('mdxld plugin', () => {
   let plugin: Plugin
   let build: ReturnType<typeof createBuildStub>
@@ -25,6 +23,23 @@ describe('mdxld plugin', () => {
     return (build.onLoad as MockWithHandlers<typeof build.onLoad>).handlers?.get(namespace)
   }
 
+  const loadExample = async (example: string) => {
+    const loadCallback = getHandlerForNamespace('file')
+    expect(loadCallback).toBeDefined()
+    if (!loadCallback) throw new Error('File handler not found')
+
+    return (await loadCallback({
+      path: path.join(examplesDir, example),
+      namespace: 'file',
+      suffix: '',
+      pluginData: null,
+      with: {},
+      resolveDir: '/',
+      kind: 'entry-point',
+      importer: '',
+    })) as ExtendedOnLoadResult
+  }
+
   it('should create a plugin with default options', () => {
     expect(plugin.name).toBe('mdxld')
     expect(build.onResolve).toHaveBeenCalled()
@@ -33,248 +48,223 @@ describe('mdxld plugin', () => {
 
   describe('YAML-LD parsing with @ prefix', () => {
     it('should process basic string values', async () => {
-      const mdxPath = path.join(examplesDir, 'basic/at-prefix.mdx')
-      const content = await fs.readFile(mdxPath, 'utf8')
-      vi.mocked(fs.readFile).mockResolvedValue(content)
-
-      const loadCallback = getHandlerForNamespace('file')
-      expect(loadCallback).toBeDefined()
-      if (!loadCallback) throw new Error('File handler not found')
-
-      const result = (await loadCallback({
-        path: mdxPath,
-        namespace: 'file',
-        suffix: '',
-        pluginData: null,
-        with: {},
-        resolveDir: '/',
-        kind: 'entry-point',
-        importer: '',
-      })) as ExtendedOnLoadResult
-
-      const virtualPath = result.path || ''
-      const virtualCallback = getHandlerForNamespace('virtual')
-      expect(virtualCallback).toBeDefined()
-      if (!virtualCallback) throw new Error('Virtual handler not found')
-
-      const virtualResult = (await virtualCallback({
-        path: virtualPath,
-        namespace: 'virtual',
-        suffix: '',
-        pluginData: null,
-        with: {},
-        resolveDir: '/',
-        kind: 'entry-point',
-        importer: '',
-      })) as ExtendedOnLoadResult
-
-      expect(virtualResult.contents).toBeDefined()
-      expect(typeof virtualResult.contents === 'string').toBe(true)
-      const contents = virtualResult.contents as string
+      const result = await loadExample('basic/at-prefix.mdx')
+
+      expect(result.contents).toBeDefined()
+      expect(typeof result.contents === 'string').toBe(true)
+      const contents = result.contents as string
       expect(contents).toContain('"@context": "https://schema.org"')
       expect(contents).toContain('"@type": "BlogPosting"')
       expect(contents).toContain('"title": "Understanding YAML-LD in MDX"')
-      expect(virtualResult.loader).toBe('mdx')
+      expect(result.loader).toBe('js')
     })
 
     it('should process numeric values and nested objects', async () => {
-      const mdxPath = path.join(examplesDir, 'basic/dollar-prefix.mdx')
-      const content = await fs.readFile(mdxPath, 'utf8')
-      vi.mocked(fs.readFile).mockResolvedValue(content)
-
-      const loadCallback = getHandlerForNamespace('file')
-      expect(loadCallback).toBeDefined()
-      if (!loadCallback) throw new Error('File handler not found')
-
-      const result = (await loadCallback({
-        path: mdxPath,
-        namespace: 'file',
-        suffix: '',
-        pluginData: null,
-        with: {},
-        resolveDir: '/',
-        kind: 'entry-point',
-        importer: '',
-      })) as ExtendedOnLoadResult
-
-      const virtualPath = result.path || ''
-      const virtualCallback = getHandlerForNamespace('virtual')
-      expect(virtualCallback).toBeDefined()
-      if (!virtualCallback) throw new Error('Virtual handler not found')
-
-      const virtualResult = (await virtualCallback({
-        path: virtualPath,
-        namespace: 'virtual',
-        suffix: '',
-        pluginData: null,
-        with: {},
-        resolveDir: '/',
-        kind: 'entry-point',
-        importer: '',
-      })) as ExtendedOnLoadResult
-
-      expect(virtualResult.contents).toBeDefined()
-      expect(typeof virtualResult.contents === 'string').toBe(true)
-      const contents = virtualResult.contents as string
+      const result = await loadExample('basic/dollar-prefix.mdx')
+
+      expect(result.contents).toBeDefined()
+      expect(typeof result.contents === 'string').toBe(true)
+      const contents = result.contents as string
       expect(contents).toContain('"$type": "Product"')
       expect(contents).toContain('"price": 29.99')
       expect(contents).toContain('"availability": "InStock"')
-      expect(virtualResult.loader).toBe('mdx')
+      expect(result.loader).toBe('js')
     })
   })
 
   describe('YAML-LD parsing with complex structures', () => {
     it('should process nested objects and arrays', async () => {
-      const mdxPath = path.join(examplesDir, 'complex/nested-data.mdx')
-      const content = await fs.readFile(mdxPath, 'utf8')
-      vi.mocked(fs.readFile).mockResolvedValue(content)
-
-      const loadCallback = getHandlerForNamespace('file')
-      expect(loadCallback).toBeDefined()
-      if (!loadCallback) throw new Error('File handler not found')
-
-      const result = (await loadCallback({
-        path: mdxPath,
-        namespace: 'file',
-        suffix: '',
-        pluginData: null,
-        with: {},
-        resolveDir: '/',
-        kind: 'entry-point',
-        importer: '',
-      })) as ExtendedOnLoadResult
-
-      const virtualPath = result.path || ''
-      const virtualCallback = getHandlerForNamespace('virtual')
-      expect(virtualCallback).toBeDefined()
-      if (!virtualCallback) throw new Error('Virtual handler not found')
-
-      const virtualResult = (await virtualCallback({
-        path: virtualPath,
-        namespace: 'virtual',
-        suffix: '',
-        pluginData: null,
-        with: {},
-        resolveDir: '/',
-        kind: 'entry-point',
-        importer: '',
-      })) as ExtendedOnLoadResult
-
-      expect(virtualResult.contents).toBeDefined()
-      expect(typeof virtualResult.contents === 'string').toBe(true)
-      const contents = virtualResult.contents as string
+      const result = await loadExample('complex/nested-data.mdx')
+
+      expect(result.contents).toBeDefined()
+      expect(typeof result.contents === 'string').toBe(true)
+      const contents = result.contents as string
       expect(contents).toContain('"$type": "Event"')
       expect(contents).toContain('"$type": "Place"')
       expect(contents).toContain('"$type": "Person"')
       expect(contents).toContain('"topics": ["AI", "Machine Learning"]')
-      expect(virtualResult.loader).toBe('mdx')
+      expect(result.loader).toBe('js')
+    })
+  })
+
+  describe('MDX compilation', () => {
+    it('should compile the document body into a component', async () => {
+      const result = await loadExample('basic/at-prefix.mdx')
+
+      const contents = result.contents as string
+      expect(contents).toContain('export default function MDXContent')
+      expect(contents).toContain('"Understanding YAML-LD in MDX"')
+      expect(contents).not.toContain('@context: https://schema.org')
+      expect(result.resolveDir).toBe(path.join(examplesDir, 'basic'))
+    })
+
+    it('should export frontmatter and canonical JSON-LD', async () => {
+      const result = await loadExample('basic/dollar-prefix.mdx')
+
+      const contents = result.contents as string
+      expect(contents).toMatch(/export const frontmatter = \{[^]*"\$type": "Product"/)
+      expect(contents).toMatch(/export const jsonld = \{[^]*"@type": "Product"/)
+    })
+
+    it('should keep JSX when the jsx option is set', async () => {
+      plugin = mdxld({ jsx: true })
+      build = setupTestPlugin(plugin)
+
+      const result = await loadExample('basic/at-prefix.mdx')
+      expect(result.contents).toContain('<_components.h1>')
+      expect(result.loader).toBe('jsx')
+    })
+
+    it('should pass YAML-LD data to remark plugins', async () => {
+      const seen: unknown[] = []
+      const remarkSpy = () => (tree: { data?: Record<string, unknown> }, file: { data: Record<string, unknown> }) => {
+        seen.push(file.data.yamlLd, tree.data?.yamlLd)
+      }
+      plugin = mdxld({ remarkPlugins: [remarkSpy] })
+      build = setupTestPlugin(plugin)
+
+      await loadExample('basic/dollar-prefix.mdx')
+      expect(seen).toHaveLength(2)
+      expect(seen[0]).toMatchObject({ $type: 'Product', name: 'Cool Product' })
+      expect(seen[1]).toBe(seen[0])
+    })
+
+    it('should apply rehype plugins', async () => {
+      const rehypeRename = () => (tree: { children: { type: string; tagName?: string }[] }) => {
+        for (const node of tree.children) {
+          if (node.type === 'element' && node.tagName === 'h1') node.tagName = 'h2'
+        }
+      }
+      plugin = mdxld({ rehypePlugins: [rehypeRename] })
+      build = setupTestPlugin(plugin)
+
+      const result = await loadExample('basic/at-prefix.mdx')
+      expect(result.contents).toContain('_components.h2')
+      expect(result.contents).not.toContain('_components.h1')
+    })
+
+    it('should build a bundle with esbuild', async () => {
+      const result = await esbuild.build({
+        entryPoints: [path.join(examplesDir, 'complex/nested-data.mdx')],
+        bundle: true,
+        write: false,
+        format: 'esm',
+        external: ['react/jsx-runtime'],
+        plugins: [mdxld()],
+        logLevel: 'silent',
+      })
+
+      const output = result.outputFiles[0].text
+      expect(output).toContain('MDXContent as default')
+      expect(output).toContain('frontmatter')
+      expect(output).toContain('jsonld')
+      expect(output).toContain('"Tech Conference 2024"')
+    })
+  })
+
+  describe('JSON-LD output', () => {
+    it('should export a JSON-LD script with canonical keywords', async () => {
+      plugin = mdxld({ preferDollarPrefix: true, jsonLdScript: true })
+      build = setupTestPlugin(plugin)
+
+      const result = await loadExample('basic/at-prefix.mdx')
+      const contents = result.contents as string
+      const match = contents.match(/export const jsonLdScript = (".*")/)
+      expect(match).not.toBeNull()
+
+      const script = JSON.parse(match![1]) as string
+      expect(script).toMatch(/^<script type="application\/ld\+json">.*<\/script>$/)
+      const json = JSON.parse(script.replace(/^<script[^>]*>/, '').replace(/<\/script>$/, ''))
+      expect(json['@context']).toBe('https://schema.org')
+      expect(json.author['@type']).toBe('Person')
+      expect(json.$type).toBeUndefined()
+      expect(contents).toContain('"$type": "BlogPosting"')
+    })
+
+    it('should not export a script by default', async () => {
+      const result = await loadExample('basic/at-prefix.mdx')
+      expect(result.contents).not.toContain('jsonLdScript')
+      expect(result.contents).not.toContain('JsonLd')
+    })
+
+    it('should inject a JsonLd component at the top of the document', async () => {
+      plugin = mdxld({ injectJsonLd: true })
+      build = setupTestPlugin(plugin)
+
+      const result = await loadExample('complex/nested-data.mdx')
+      const contents = result.contents as string
+      expect(contents).toContain('export function JsonLd()')
+      expect(contents).toContain('type: "application/ld+json"')
+      expect(contents).toContain('\\"@type\\":\\"Event\\"')
+      expect(contents.indexOf('_jsx(JsonLd, {})')).toBeLessThan(contents.indexOf('"Tech Conference 2024"'))
+    })
+
+    it('should not inject a component into documents without frontmatter', async () => {
+      plugin = mdxld({ injectJsonLd: true, jsonLdScript: true })
+      build = setupTestPlugin(plugin)
+
+      const result = await loadExample('errors/no-frontmatter.mdx')
+      expect(result.contents).not.toContain('JsonLd')
+      expect(result.contents).toContain(`export const jsonLdScript = ""`)
     })
   })
 
   describe('Error handling', () => {
     it('should handle invalid YAML syntax', async () => {
-      const mdxPath = path.join(examplesDir, 'errors/invalid-yaml.mdx')
-      const content = await fs.readFile(mdxPath, 'utf8')
-      vi.mocked(fs.readFile).mockResolvedValue(content)
-
-      const loadCallback = getHandlerForNamespace('file')
-      expect(loadCallback).toBeDefined()
-      if (!loadCallback) throw new Error('File handler not found')
-
-      const result = (await loadCallback({
-        path: mdxPath,
-        namespace: 'file',
-        suffix: '',
-        pluginData: null,
-        with: {},
-        resolveDir: '/',
-        kind: 'entry-point',
-        importer: '',
-      })) as ExtendedOnLoadResult
+      const result = await loadExample('errors/invalid-yaml.mdx')
 
       expect(result.errors).toBeDefined()
-      expect(result.errors![0].text).toBe('Invalid YAML syntax')
-      expect(result.loader).toBe('mdx')
+      expect(result.errors![0].text).toBe('Invalid YAML syntax: missed comma between flow collection entries')
+      expect(result.errors![0].location).toEqual({
+        file: path.join(examplesDir, 'errors/invalid-yaml.mdx'),
+        line: 3,
+        column: 15,
+        lineText: '@type: [Invalid[Syntax',
+      })
+    })
+
+    it('should locate YAML errors after the opening fence in esbuild output', async () => {
+      const result = await esbuild
+        .build({
+          entryPoints: [path.join(examplesDir, 'errors/invalid-yaml.mdx')],
+          write: false,
+          plugins: [mdxld()],
+          logLevel: 'silent',
+        })
+        .catch((error: esbuild.BuildFailure) => error)
+
+      expect('errors' in result).toBe(true)
+      const [error] = (result as esbuild.BuildFailure).errors
+      expect(error.pluginName).toBe('mdxld')
+      expect(error.location).toMatchObject({ line: 3, column: 15, lineText: '@type: [Invalid[Syntax' })
+    })
+
+    it('should report unreadable files without logging', async () => {
+      const consoleError = vi.spyOn(console, 'error')
+      const result = await loadExample('errors/missing.mdx')
+
+      expect(result.errors![0].text).toBe('Failed to read file')
+      expect(result.errors![0].notes![0].text).toContain('ENOENT')
+      expect(consoleError).not.toHaveBeenCalled()
     })
 
     it('should handle missing frontmatter', async () => {
-      const mdxPath = path.join(examplesDir, 'errors/no-frontmatter.mdx')
-      const content = await fs.readFile(mdxPath, 'utf8')
-      vi.mocked(fs.readFile).mockResolvedValue(content)
-
-      const loadCallback = getHandlerForNamespace('file')
-      expect(loadCallback).toBeDefined()
-      if (!loadCallback) throw new Error('File handler not found')
-
-      const result = (await loadCallback({
-        path: mdxPath,
-        namespace: 'file',
-        suffix: '',
-        pluginData: null,
-        with: {},
-        resolveDir: '/',
-        kind: 'entry-point',
-        importer: '',
-      })) as ExtendedOnLoadResult
-
-      const virtualPath = result.path || ''
-      const virtualCallback = getHandlerForNamespace('virtual')
-      expect(virtualCallback).toBeDefined()
-      if (!virtualCallback) throw new Error('Virtual handler not found')
-
-      const virtualResult = (await virtualCallback({
-        path: virtualPath,
-        namespace: 'virtual',
-        suffix: '',
-        pluginData: null,
-        with: {},
-        resolveDir: '/',
-        kind: 'entry-point',
-        importer: '',
-      })) as ExtendedOnLoadResult
-
-      expect(virtualResult.contents).toBe(content)
-      expect(virtualResult.loader).toBe('mdx')
+      const result = await loadExample('errors/no-frontmatter.mdx')
+
+      const contents = result.contents as string
+      expect(contents).toContain('"No Frontmatter"')
+      expect(contents).toContain('export const frontmatter = {}')
+      expect(result.loader).toBe('js')
     })
 
     it('should handle empty frontmatter', async () => {
-      const mdxPath = path.join(examplesDir, 'errors/empty-frontmatter.mdx')
-      const content = await fs.readFile(mdxPath, 'utf8')
-      vi.mocked(fs.readFile).mockResolvedValue(content)
-
-      const loadCallback = getHandlerForNamespace('file')
-      expect(loadCallback).toBeDefined()
-      if (!loadCallback) throw new Error('File handler not found')
-
-      const result = (await loadCallback({
-        path: mdxPath,
-        namespace: 'file',
-        suffix: '',
-        pluginData: null,
-        with: {},
-        resolveDir: '/',
-        kind: 'entry-point',
-        importer: '',
-      })) as ExtendedOnLoadResult
-
-      const virtualPath = result.path || ''
-      const virtualCallback = getHandlerForNamespace('virtual')
-      expect(virtualCallback).toBeDefined()
-      if (!virtualCallback) throw new Error('Virtual handler not found')
-
-      const virtualResult = (await virtualCallback({
-        path: virtualPath,
-        namespace: 'virtual',
-        suffix: '',
-        pluginData: null,
-        with: {},
-        resolveDir: '/',
-        kind: 'entry-point',
-        importer: '',
-      })) as ExtendedOnLoadResult
-
-      expect(virtualResult.contents).toBe(content)
-      expect(virtualResult.loader).toBe('mdx')
+      const result = await loadExample('errors/empty-frontmatter.mdx')
+
+      const contents = result.contents as string
+      expect(contents).toContain('This file has empty frontmatter.')
+      expect(contents).not.toContain('_components.hr')
+      expect(contents).toContain('export const frontmatter = {}')
+      expect(result.loader).toBe('js')
     })
   })
 })
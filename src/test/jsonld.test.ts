@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { mdxld } from '../index'
+import { createHttpClient } from '../fetch'
+import { createDocumentLoader, fetchContextDocument, resolveJsonLd } from '../jsonld'
+import type { MDXLDOptions } from '../types'
+import { setupTestPlugin, MockWithHandlers } from './utils'
+import { mockFetch, MockResponse } from './setup'
+import type { ExtendedOnLoadResult } from './http-import.test'
+
+const schemaOrg = { '@context': { '@vocab': 'https://schema.org/' } }
+
+describe('mdxld plugin - JSON-LD contexts', () => {
+  const examplesDir = path.join(process.cwd(), 'examples')
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  const loadExample = async (example: string, options: MDXLDOptions, build = setupTestPlugin(mdxld(options))) => {
+    const loadCallback = (build.onLoad as MockWithHandlers<typeof build.onLoad>).handlers?.get('file')
+    if (!loadCallback) throw new Error('File handler not found')
+
+    return (await loadCallback({
+      path: path.join(examplesDir, example),
+      namespace: 'file',
+      suffix: '',
+      pluginData: null,
+      with: {},
+      resolveDir: '/',
+      kind: 'entry-point',
+      importer: '',
+    })) as ExtendedOnLoadResult
+  }
+
+  it('should expand and compact with a local context', async () => {
+    const result = await loadExample('basic/dollar-prefix.mdx', {
+      resolveContexts: true,
+      fetchContexts: false,
+      contexts: { 'https://schema.org': schemaOrg },
+    })
+
+    const contents = result.contents as string
+    expect(result.errors).toBeUndefined()
+    expect(contents).toContain('export const jsonldExpanded')
+    expect(contents).toContain('"https://schema.org/Product"')
+    expect(contents).toContain('"https://schema.org/priceCurrency"')
+    expect(contents).toMatch(/export const jsonldCompacted = \{[^]*"@type": "Product"/)
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('should accept bare context objects', async () => {
+    const result = await loadExample('basic/at-prefix.mdx', {
+      resolveContexts: true,
+      fetchContexts: false,
+      contexts: { 'https://schema.org/': schemaOrg['@context'] },
+    })
+
+    expect(result.errors).toBeUndefined()
+    expect(result.contents).toContain('"https://schema.org/BlogPosting"')
+  })
+
+  it('should fail offline when a context is missing', async () => {
+    const result = await loadExample('basic/at-prefix.mdx', { resolveContexts: true, fetchContexts: false })
+
+    expect(result.errors).toBeDefined()
+    expect(result.errors![0].text).toBe('Failed to resolve JSON-LD context: Context https://schema.org is not available offline, add it to the contexts option')
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('should not resolve contexts unless asked to', async () => {
+    const result = await loadExample('basic/at-prefix.mdx', {})
+
+    expect(result.contents).not.toContain('jsonldExpanded')
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  describe('remote contexts', () => {
+    it('should expand against a fetched context', async () => {
+      const url = 'https://contexts.example.com/blog'
+      const context = { '@context': { title: 'https://example.com/vocab#title' } }
+      mockFetch.mockImplementationOnce(async () => new MockResponse(JSON.stringify(context)) as unknown as Response)
+      const documentLoader = createDocumentLoader({}, (contextUrl) => fetchContextDocument(createHttpClient(globalThis.fetch), contextUrl))
+
+      const { expanded, compacted } = await resolveJsonLd({ '@context': url, title: 'Hello' }, documentLoader)
+      expect(expanded).toEqual([{ 'https://example.com/vocab#title': [{ '@value': 'Hello' }] }])
+      expect(compacted).toEqual({ '@context': url, title: 'Hello' })
+    })
+
+    it('should load remote contexts through the plugin HTTP loader', async () => {
+      mockFetch.mockImplementationOnce(async () => new MockResponse(JSON.stringify(schemaOrg)) as unknown as Response)
+      const build = setupTestPlugin(mdxld({ resolveContexts: true }))
+
+      const first = await loadExample('complex/nested-data.mdx', {}, build)
+      const second = await loadExample('basic/at-prefix.mdx', {}, build)
+
+      expect(first.errors).toBeUndefined()
+      expect(first.contents).toContain('"https://schema.org/Event"')
+      expect(second.contents).toContain('"https://schema.org/BlogPosting"')
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      expect(mockFetch).toHaveBeenCalledWith('https://schema.org', expect.objectContaining({ headers: { Accept: 'application/ld+json, application/json' } }))
+    })
+
+    it('should keep remote contexts in the cache directory for offline builds', async () => {
+      const cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mdxld-contexts-'))
+      try {
+        mockFetch.mockImplementationOnce(async () => new MockResponse(JSON.stringify(schemaOrg)) as unknown as Response)
+        expect((await loadExample('basic/at-prefix.mdx', { resolveContexts: true, cacheDir })).errors).toBeUndefined()
+
+        const offline = await loadExample('basic/at-prefix.mdx', { resolveContexts: true, cacheDir, offline: true })
+        expect(offline.errors).toBeUndefined()
+        expect(offline.contents).toContain('"https://schema.org/BlogPosting"')
+        expect(mockFetch).toHaveBeenCalledTimes(1)
+
+        const miss = await loadExample('basic/at-prefix.mdx', { resolveContexts: true, offline: true })
+        expect(miss.errors![0].text).toBe('Failed to resolve JSON-LD context: https://schema.org is not in the cache, cannot load it in offline mode')
+      } finally {
+        await fs.rm(cacheDir, { recursive: true, force: true })
+      }
+    })
+  })
+})
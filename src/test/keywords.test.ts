@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import * as esbuild from 'esbuild'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { parseDocument } from '../core'
+import { keywordConflicts, normalizeKeywords } from '../keywords'
+import { mdxld } from '../index'
+
+describe('keyword styles', () => {
+  const data = { $context: 'https://schema.org', '@type': 'Product', $price: 29.99, '@handle': 'cool', offers: [{ $type: 'Offer', $id: '#offer' }] }
+
+  it('should only rename JSON-LD keywords', () => {
+    expect(normalizeKeywords(data, 'at')).toEqual({
+      '@context': 'https://schema.org',
+      '@type': 'Product',
+      $price: 29.99,
+      '@handle': 'cool',
+      offers: [{ '@type': 'Offer', '@id': '#offer' }],
+    })
+    expect(normalizeKeywords(data, 'dollar')).toEqual({
+      $context: 'https://schema.org',
+      $type: 'Product',
+      $price: 29.99,
+      '@handle': 'cool',
+      offers: [{ $type: 'Offer', $id: '#offer' }],
+    })
+    expect(normalizeKeywords(data, 'preserve')).toEqual(data)
+  })
+
+  it('should keep the spelling of the style when a keyword is set twice', () => {
+    const both = { '@type': 'Person', $type: 'Organization', name: 'Jane' }
+
+    expect(normalizeKeywords(both, 'at')).toEqual({ '@type': 'Person', name: 'Jane' })
+    expect(normalizeKeywords(both, 'dollar')).toEqual({ $type: 'Organization', name: 'Jane' })
+    expect(keywordConflicts({ author: [both] })).toEqual([
+      { path: ['author', 0, '$type'], text: 'Both @type and $type are set, use one spelling of the keyword' },
+    ])
+  })
+
+  it('should fall back to preferDollarPrefix', () => {
+    expect(parseDocument('---\n$type: Product\n---\n', { keywordStyle: 'at' }).frontmatter).toEqual({ '@type': 'Product' })
+    expect(parseDocument('---\n@type: Product\n---\n', { preferDollarPrefix: true }).frontmatter).toEqual({ $type: 'Product' })
+    expect(parseDocument('---\n@type: Product\n---\n', { preferDollarPrefix: true, keywordStyle: 'preserve' }).frontmatter).toEqual({ '@type': 'Product' })
+  })
+
+  it('should warn about keywords set with both prefixes at their line', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mdxld-keywords-'))
+    await fs.writeFile(path.join(dir, 'post.mdx'), '---\ntitle: Hello\nauthor:\n  @type: Person\n  $type: Organization\n---\n\n# Hello\n')
+
+    try {
+      const result = await esbuild.build({
+        entryPoints: [path.join(dir, 'post.mdx')],
+        write: false,
+        plugins: [mdxld({ keywordStyle: 'at' })],
+        logLevel: 'silent',
+      })
+
+      expect(result.warnings).toHaveLength(1)
+      expect(result.warnings[0].text).toBe('Both @type and $type are set, use one spelling of the keyword')
+      expect(result.warnings[0].location).toMatchObject({ line: 5, lineText: '  $type: Organization' })
+      expect(result.outputFiles[0].text).toContain('"@type": "Person"')
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import * as esbuild from 'esbuild'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { mdxld } from '../index'
+
+interface Rendered {
+  layout?: string
+  title?: string
+  type?: string
+  children?: unknown
+}
+
+describe('layouts', () => {
+  let dir: string
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mdxld-layouts-'))
+    await fs.mkdir(path.join(dir, 'layouts'))
+    // Calls components right away, so rendering returns plain objects
+    await fs.writeFile(
+      path.join(dir, 'jsx-runtime.js'),
+      'export const Fragment = (props) => props.children\nexport const jsx = (type, props) => (typeof type === "function" ? type(props) : { type, props })\nexport const jsxs = jsx\n',
+    )
+    await fs.writeFile(
+      path.join(dir, 'layouts', 'post.js'),
+      'export default ({ children, frontmatter, jsonld }) => ({ layout: "post", title: frontmatter.title, type: jsonld["@type"], children })\n',
+    )
+    await fs.writeFile(path.join(dir, 'layouts', 'plain.js'), 'export default ({ children }) => ({ layout: "plain", children })\n')
+    await fs.writeFile(path.join(dir, 'post.mdx'), '---\n$type: BlogPosting\ntitle: Hello\n---\n\n# Hello\n')
+    await fs.writeFile(path.join(dir, 'named.mdx'), '---\n@type: BlogPosting\nlayout: ./layouts/plain.js\n---\n\n# Named\n')
+    await fs.writeFile(path.join(dir, 'bare.mdx'), '---\n@type: BlogPosting\nlayout: false\n---\n\n# Bare\n')
+    await fs.writeFile(path.join(dir, 'sample.mdx'), '---\n@type: BlogPosting\ntitle: Sample\n---\n\n```js\nexport default function Page() {}\n```\n')
+    await fs.writeFile(path.join(dir, 'own.mdx'), '---\n@type: BlogPosting\n---\n\nexport default ({ children }) => ({ layout: "own", children })\n\n# Own\n')
+    await fs.writeFile(path.join(dir, 'notes.md'), '---\n@type: BlogPosting\n---\n\n# Notes\n')
+  })
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  const render = async (entry: string): Promise<Rendered> => {
+    const outfile = path.join(dir, 'out', entry.replace(/\.mdx?$/, '.mjs'))
+    await esbuild.build({
+      entryPoints: [path.join(dir, entry)],
+      absWorkingDir: dir,
+      outfile,
+      bundle: true,
+      format: 'esm',
+      alias: { 'react/jsx-runtime': path.join(dir, 'jsx-runtime.js') },
+      plugins: [mdxld({ layouts: { BlogPosting: './layouts/post.js' } })],
+      logLevel: 'silent',
+    })
+    const module = (await import(pathToFileURL(outfile).href)) as { default: (props: Record<string, unknown>) => Rendered }
+    return module.default({})
+  }
+
+  it('should render documents inside the layout of their @type with the YAML-LD as props', async () => {
+    const rendered = await render('post.mdx')
+
+    expect(rendered).toMatchObject({ layout: 'post', title: 'Hello', type: 'BlogPosting' })
+    expect(JSON.stringify(rendered.children)).toContain('"children":"Hello"')
+  })
+
+  it('should prefer the layout key of the frontmatter', async () => {
+    expect(await render('named.mdx')).toMatchObject({ layout: 'plain' })
+    expect(await render('bare.mdx')).not.toHaveProperty('layout')
+  })
+
+  it('should keep the layout key out of the JSON-LD', async () => {
+    const result = await esbuild.build({
+      entryPoints: [path.join(dir, 'named.mdx')],
+      absWorkingDir: dir,
+      write: false,
+      format: 'esm',
+      plugins: [mdxld({ jsonLdScript: true })],
+      logLevel: 'silent',
+    })
+    const output = result.outputFiles[0].text
+
+    expect(output).toMatch(/frontmatter = \{\s+"@type": "BlogPosting",\s+"layout": ".\/layouts\/plain.js"\s+\}/)
+    expect(output).toMatch(/jsonld = \{\s+"@type": "BlogPosting"\s+\}/)
+    expect(output).toContain(`jsonLdScript = '<script type="application/ld+json">{"@type":"BlogPosting"}<\\/script>'`)
+  })
+
+  it('should keep the default export of the document, but not one in a code block', async () => {
+    expect(await render('own.mdx')).toMatchObject({ layout: 'own' })
+    expect(await render('sample.mdx')).toMatchObject({ layout: 'post', title: 'Sample' })
+  })
+
+  it('should warn that Markdown documents have no layout', async () => {
+    const result = await esbuild.build({
+      entryPoints: [path.join(dir, 'notes.md')],
+      absWorkingDir: dir,
+      write: false,
+      bundle: true,
+      format: 'esm',
+      external: ['react/jsx-runtime'],
+      plugins: [mdxld({ layouts: { BlogPosting: './layouts/post.js' } })],
+      logLevel: 'silent',
+    })
+
+    expect(result.warnings[0].text).toBe(`Layouts only apply to MDX, ${path.join(dir, 'notes.md')} is rendered without ${dir}/layouts/post.js`)
+    expect(result.warnings[0].location).toMatchObject({ line: 2, lineText: '@type: BlogPosting' })
+  })
+})
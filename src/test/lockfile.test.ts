@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import type { PluginBuild } from 'esbuild'
+import { mdxld } from '../index'
+import { createLockfile, integrity, LockfileContents } from '../lockfile'
+import type { MDXLDOptions } from '../types'
+import { createBuildStub, MockWithHandlers, remoteResponse } from './utils'
+import { mockFetch } from './setup'
+import type { ExtendedOnLoadResult, HttpHandlerArgs } from './http-import.test'
+
+describe('lockfile', () => {
+  let dir: string
+  let lockfile: string
+  const now = () => new Date('2024-05-01T00:00:00.000Z')
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mdxld-lock-'))
+    lockfile = path.join(dir, 'mdxld.lock.json')
+  })
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  const readLock = async () => JSON.parse(await fs.readFile(lockfile, 'utf8')) as LockfileContents
+
+  it('should compute SRI sha384 hashes', () => {
+    expect(integrity('alert("Hello, world.");')).toBe('sha384-rwE6Iuo1Y5spnMVUH6Cdjh+wWToU3cZPwiI1th7Wm1MINXGD4PlaByYDRdaBLn0e')
+  })
+
+  it('should pin new imports and accept unchanged contents', async () => {
+    const lock = createLockfile(lockfile, { now })
+    await lock.load()
+    await lock.verify('https://example.com/a.mdx', 'https://cdn.example.com/a.mdx', '# A')
+    await lock.save()
+
+    expect(await readLock()).toEqual({
+      lockfileVersion: 1,
+      imports: {
+        'https://example.com/a.mdx': { resolved: 'https://cdn.example.com/a.mdx', integrity: integrity('# A'), fetchedAt: '2024-05-01T00:00:00.000Z' },
+      },
+    })
+
+    const next = createLockfile(lockfile)
+    await next.load()
+    await expect(next.verify('https://example.com/a.mdx', 'https://cdn.example.com/a.mdx', '# A')).resolves.toBeUndefined()
+  })
+
+  it('should fail when pinned contents change', async () => {
+    const lock = createLockfile(lockfile)
+    await lock.verify('https://example.com/a.mdx', 'https://example.com/a.mdx', '# A')
+    await lock.save()
+
+    const next = createLockfile(lockfile)
+    await next.load()
+    await expect(next.verify('https://example.com/a.mdx', 'https://example.com/a.mdx', '# Tampered')).rejects.toThrow(
+      `Integrity check failed for https://example.com/a.mdx: ${lockfile} pins ${integrity('# A')}`,
+    )
+  })
+
+  it('should rewrite the lockfile in update mode', async () => {
+    const lock = createLockfile(lockfile)
+    await lock.verify('https://example.com/a.mdx', 'https://example.com/a.mdx', '# A')
+    await lock.verify('https://example.com/unused.mdx', 'https://example.com/unused.mdx', '# Unused')
+    await lock.save()
+
+    const update = createLockfile(lockfile, { update: true })
+    await update.load()
+    await update.verify('https://example.com/a.mdx', 'https://example.com/a.mdx', '# Changed')
+    await update.save()
+
+    const { imports } = await readLock()
+    expect(Object.keys(imports)).toEqual(['https://example.com/a.mdx'])
+    expect(imports['https://example.com/a.mdx'].integrity).toBe(integrity('# Changed'))
+  })
+
+  describe('plugin', () => {
+    const setup = (options: MDXLDOptions) => {
+      const build = createBuildStub()
+      mdxld(options).setup(build as unknown as PluginBuild)
+      const callback = (build.onLoad as MockWithHandlers<typeof build.onLoad>).handlers?.get('http-url')
+      if (!callback) throw new Error('HTTP URL handler not found')
+
+      const load = async (url: string) => {
+        const args: HttpHandlerArgs = {
+          path: url,
+          namespace: 'http-url',
+          suffix: '',
+          pluginData: null,
+          with: {},
+          resolveDir: '',
+          kind: 'import-statement',
+          importer: '',
+        }
+        return (await callback(args)) as ExtendedOnLoadResult
+      }
+      const start = () => Promise.all(build.onStart.mock.calls.map(([callback]) => callback()))
+      const [[end]] = build.onEnd.mock.calls
+      return { load, start, end }
+    }
+
+    it('should verify HTTP imports against the lockfile', async () => {
+      const url = 'https://example.com/locked/post.mdx'
+      await fs.writeFile(
+        lockfile,
+        JSON.stringify({ lockfileVersion: 1, imports: { [url]: { resolved: url, integrity: integrity('# Original'), fetchedAt: now().toISOString() } } }),
+      )
+      mockFetch.mockImplementationOnce(async () => remoteResponse('# Tampered'))
+
+      const { load, start } = setup({ lockfile })
+      await start()
+      const result = await load(url)
+      expect(result.errors![0].text).toContain(`Integrity check failed for ${url}`)
+      expect(result.contents).toBeUndefined()
+    })
+
+    it('should write new imports when the build succeeds', async () => {
+      mockFetch.mockImplementationOnce(async () => remoteResponse('# New'))
+
+      const { load, start, end } = setup({ lockfile, updateLock: true })
+      await start()
+      await load('https://example.com/locked/new.mdx')
+      await end({ errors: [], warnings: [] })
+
+      expect((await readLock()).imports['https://example.com/locked/new.mdx'].integrity).toBe(integrity('# New'))
+    })
+
+    it('should fail to update without a lockfile', async () => {
+      const build = createBuildStub()
+      mdxld({ updateLock: true }).setup(build as unknown as PluginBuild)
+      const results = await Promise.all(build.onStart.mock.calls.map(([callback]) => callback()))
+
+      expect(results).toContainEqual({ errors: [{ text: 'The updateLock option needs lockfile, the path of the lockfile to rewrite' }] })
+    })
+  })
+})
@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest'
+import { dirname, joinPath, normalizePath } from '../paths'
+
+describe('paths', () => {
+  it('should resolve paths against a directory', () => {
+    expect(joinPath('/posts', '../data/org.yamlld')).toBe('/data/org.yamlld')
+    expect(joinPath('/project', './layouts/post.js')).toBe('/project/layouts/post.js')
+    expect(joinPath('/posts', '/shared/org.yamlld')).toBe('/shared/org.yamlld')
+    expect(joinPath('C:\\project\\posts', '..\\data\\org.yamlld')).toBe('C:/project/data/org.yamlld')
+    expect(joinPath('org/repo/docs', '../components/note.jsx')).toBe('org/repo/components/note.jsx')
+  })
+
+  it('should normalize segments and find the directory of files', () => {
+    expect(normalizePath('/a/./b//c/..')).toBe('/a/b')
+    expect(dirname('/posts/hello.mdx')).toBe('/posts')
+    expect(dirname('/hello.mdx')).toBe('/')
+    expect(dirname('hello.mdx')).toBe('.')
+  })
+})
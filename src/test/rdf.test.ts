@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import * as esbuild from 'esbuild'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { mdxld } from '../index'
+import { toTurtle } from '../rdf'
+import { EmitGraphOptions } from '../types'
+
+const schemaContext = { '@context': { '@vocab': 'https://schema.org/' } }
+
+describe('graph emission', () => {
+  it('should serialize triples as Turtle grouped by subject', () => {
+    const named = (value: string) => ({ termType: 'NamedNode' as const, value })
+    const graph = { termType: 'DefaultGraph' as const, value: '' }
+    const turtle = toTurtle([
+      {
+        subject: named('https://example.com/jane'),
+        predicate: named('http://www.w3.org/1999/02/22-rdf-syntax-ns#type'),
+        object: named('https://schema.org/Person'),
+        graph,
+      },
+      {
+        subject: named('https://example.com/jane'),
+        predicate: named('https://schema.org/name'),
+        object: { termType: 'Literal', value: 'Jane "JD" Doe', datatype: named('http://www.w3.org/2001/XMLSchema#string') },
+        graph,
+      },
+      {
+        subject: { termType: 'BlankNode', value: '_:b0' },
+        predicate: named('https://schema.org/position'),
+        object: { termType: 'Literal', value: '1', datatype: named('http://www.w3.org/2001/XMLSchema#integer') },
+        graph,
+      },
+    ])
+
+    expect(turtle).toBe(
+      '<https://example.com/jane>\n  a <https://schema.org/Person> ;\n  <https://schema.org/name> "Jane \\"JD\\" Doe" .\n\n' +
+        '_:b0\n  <https://schema.org/position> "1"^^<http://www.w3.org/2001/XMLSchema#integer> .\n',
+    )
+  })
+
+  describe('plugin', () => {
+    let dir: string
+
+    beforeAll(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mdxld-rdf-'))
+      await fs.writeFile(path.join(dir, 'jane.mdx'), '---\n@context: https://schema.org\n@id: /people/jane\n@type: Person\nname: Jane Doe\n---\n\n# Jane\n')
+      await fs.writeFile(path.join(dir, 'post.mdx'), '---\n@context: https://schema.org\n@type: BlogPosting\nheadline: Hello\n---\n\n# Hello\n')
+      await fs.writeFile(path.join(dir, 'index.js'), 'export { default as Jane } from "./jane.mdx"\nexport { default as Post } from "./post.mdx"\n')
+    })
+
+    afterAll(async () => {
+      await fs.rm(dir, { recursive: true, force: true })
+    })
+
+    const build = (write: boolean, emitGraph: EmitGraphOptions = { base: 'https://example.com', nquads: true, turtle: true }) =>
+      esbuild.build({
+        entryPoints: [path.join(dir, 'index.js')],
+        absWorkingDir: dir,
+        outdir: 'dist',
+        bundle: true,
+        write,
+        format: 'esm',
+        external: ['react/jsx-runtime'],
+        plugins: [
+          mdxld({
+            contexts: { 'https://schema.org': schemaContext },
+            fetchContexts: false,
+            emitGraph,
+          }),
+        ],
+        logLevel: 'silent',
+      })
+
+    it('should add the graph of every document to the output files', async () => {
+      const result = await build(false)
+      const files = new Map((result.outputFiles ?? []).map((file) => [path.relative(dir, file.path), file.text]))
+
+      expect(JSON.parse(files.get('dist/graph.jsonld') ?? '')).toEqual([
+        { '@id': '_:b0', '@type': ['https://schema.org/BlogPosting'], 'https://schema.org/headline': [{ '@value': 'Hello' }] },
+        { '@id': 'https://example.com/people/jane', '@type': ['https://schema.org/Person'], 'https://schema.org/name': [{ '@value': 'Jane Doe' }] },
+      ])
+      expect(files.get('dist/graph.nq')).toContain('<https://example.com/people/jane> <https://schema.org/name> "Jane Doe" .')
+      expect(files.get('dist/graph.ttl')).toContain(
+        '<https://example.com/people/jane>\n  a <https://schema.org/Person> ;\n  <https://schema.org/name> "Jane Doe" .',
+      )
+    })
+
+    it('should write the graph into the outdir', async () => {
+      await build(true)
+
+      const graph = JSON.parse(await fs.readFile(path.join(dir, 'dist', 'graph.jsonld'), 'utf8')) as { '@id': string }[]
+      expect(graph.map((node) => node['@id'])).toEqual(['_:b0', 'https://example.com/people/jane'])
+      await expect(fs.readFile(path.join(dir, 'dist', 'graph.ttl'), 'utf8')).resolves.toContain('<https://schema.org/headline> "Hello"')
+    })
+
+    it('should warn about relative ids without a base', async () => {
+      const result = await build(false, { nquads: true })
+
+      expect(result.warnings.map((warning) => warning.text)).toEqual([
+        'The graph has relative @ids that are left out of its RDF, set emitGraph.base to expand them: /people/jane',
+      ])
+      expect(result.outputFiles?.find((file) => file.path.endsWith('graph.nq'))?.text).not.toContain('Jane Doe')
+    })
+  })
+})
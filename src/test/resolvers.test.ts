@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import * as esbuild from 'esbuild'
+import type { PluginBuild } from 'esbuild'
+import { mdxld } from '../index'
+import { resolveCached } from '../cache'
+import type { HttpCacheEntry, MDXLDOptions } from '../types'
+import { createBuildStub, MockWithHandlers } from './utils'
+import { mockFetch } from './setup'
+import type { ExtendedOnLoadResult, HttpHandlerArgs } from './http-import.test'
+
+describe('mdxld plugin - custom resolvers', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  const setup = (options: MDXLDOptions) => {
+    const build = createBuildStub()
+    mdxld(options).setup(build as unknown as PluginBuild)
+    const callback = (build.onLoad as MockWithHandlers<typeof build.onLoad>).handlers?.get('http-url')
+    if (!callback) throw new Error('HTTP URL handler not found')
+
+    return async (uri: string) => {
+      const args: HttpHandlerArgs = {
+        path: uri,
+        namespace: 'http-url',
+        suffix: '',
+        pluginData: null,
+        with: {},
+        resolveDir: '',
+        kind: 'import-statement',
+        importer: '',
+      }
+      return (await callback(args)) as ExtendedOnLoadResult
+    }
+  }
+
+  it('should load modules through the resolver for their scheme', async () => {
+    const github = vi.fn(async (uri: string) => ({ contents: `---\ntitle: Shared\n---\n\n# From ${uri}`, url: 'https://raw.example.com/org/repo/intro.mdx' }))
+    const load = setup({ resolvers: { 'github:': github } })
+
+    const result = await load('github:org/repo/intro.mdx')
+    expect(github).toHaveBeenCalledWith('github:org/repo/intro.mdx')
+    expect(result.loader).toBe('js')
+    expect(result.contents).toContain('"title": "Shared"')
+    expect(result.pluginData).toEqual({ url: 'https://raw.example.com/org/repo/intro.mdx' })
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('should prefer the longest matching prefix and accept plain strings', async () => {
+    const shared = vi.fn(async () => 'export default "shared"')
+    const fallback = vi.fn(async () => 'export default "fallback"')
+    const load = setup({ resolvers: { 'npm:': fallback, 'npm:@team/': shared } })
+
+    const result = await load('npm:@team/snippets/index.js')
+    expect(result.contents).toBe('export default "shared"')
+    expect(fallback).not.toHaveBeenCalled()
+  })
+
+  it('should report resolver failures as build errors', async () => {
+    const load = setup({ resolvers: { 's3:': async () => Promise.reject(new Error('Access denied')) } })
+
+    const result = await load('s3:bucket/missing.mdx')
+    expect(result.errors![0].text).toBe('Access denied')
+  })
+
+  it('should keep resolved contents in the persistent cache', async () => {
+    const entries = new Map<string, HttpCacheEntry>()
+    const store = { get: async (uri: string) => entries.get(uri), set: async (uri: string, entry: HttpCacheEntry) => void entries.set(uri, entry) }
+    const resolve = vi.fn(async () => ({ contents: '{"a":1}', loader: 'json' as const, maxAge: 60 }))
+
+    await resolveCached(resolve, 'ipfs:Qm123', store, { now: 0 })
+    const cached = await resolveCached(resolve, 'ipfs:Qm123', store, { now: 1000 })
+    expect(cached).toEqual({ url: 'ipfs:Qm123', contents: '{"a":1}', contentType: undefined, loader: 'json' })
+    expect(resolve).toHaveBeenCalledTimes(1)
+
+    await expect(resolveCached(resolve, 'ipfs:Qm456', store, { offline: true })).rejects.toThrow(
+      'ipfs:Qm456 is not in the cache, cannot load it in offline mode',
+    )
+  })
+
+  it('should bundle relative imports between resolved modules', async () => {
+    const files: Record<string, string> = {
+      'github:org/repo/docs/page.mdx': 'import { Note } from "../components/note.jsx"\n\n# Page\n\n<Note />',
+      'github:org/repo/components/note.jsx': 'export const Note = () => "note"',
+    }
+    const result = await esbuild.build({
+      stdin: { contents: 'export { default } from "github:org/repo/docs/page.mdx"' },
+      bundle: true,
+      write: false,
+      format: 'esm',
+      external: ['react/jsx-runtime'],
+      plugins: [mdxld({ resolvers: { 'github:': async (uri) => files[uri] } })],
+      logLevel: 'silent',
+    })
+
+    expect(result.outputFiles[0].text).toContain('"note"')
+    expect(result.outputFiles[0].text).toContain('"Page"')
+  })
+})
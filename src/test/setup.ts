@@ -29,6 +29,17 @@ export const mockRequest = vi.fn(() => ({
   text: vi.fn(),
 })) as unknown as typeof Request
 
+// Header records and pairs are readable through `get`, like the headers of a real response
+function responseHeaders(init?: HeadersInit): Headers {
+  if (init && typeof (init as Headers).get === 'function') {
+    return init as Headers
+  }
+  const values = new Map((Array.isArray(init) ? init : Object.entries(init ?? {})).map(([name, value]) => [name.toLowerCase(), value]))
+  const headers = new (mockHeaders as typeof Headers)()
+  headers.get = vi.fn((name: string) => values.get(name.toLowerCase()) ?? null)
+  return headers
+}
+
 class MockResponse implements Response {
   readonly type: ResponseType
   readonly url: string
@@ -50,7 +61,7 @@ class MockResponse implements Response {
     this.status = initOptions.status ?? 200
     this.statusText = initOptions.statusText ?? 'OK'
     this.ok = this.status >= 200 && this.status < 300
-    this.headers = new (mockHeaders as typeof Headers)()
+    this.headers = responseHeaders(initOptions.headers)
     this.bodyUsed = false
 
     if (bodyInit === null || bodyInit === undefined) {
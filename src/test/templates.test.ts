@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import * as esbuild from 'esbuild'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { mdxld } from '../index'
+import { countWords, readingTime, renderTemplates } from '../templates'
+import { MDXLDOptions } from '../types'
+
+describe('frontmatter templates', () => {
+  it('should count the words of the body without ESM and JSX', () => {
+    expect(countWords('import Chart from "./chart.js"\n\n# Hello world\n\n<Chart data={points} />\n\nIt’s a well-known fact.\n')).toBe(6)
+    expect(readingTime(0)).toBe('PT1M')
+    expect(readingTime(401)).toBe('PT3M')
+  })
+
+  it('should render placeholders, keeping the type of whole-string ones', async () => {
+    const variables: Record<string, unknown> = { site: 'https://example.com', slug: 'hello', wordCount: 42, author: { name: 'Jane' } }
+    const rendered = await renderTemplates(
+      { url: '{{site}}/blog/{{ slug }}', words: '{{wordCount}}', byline: 'By {{author.name}}', tags: ['{{slug}}'] },
+      async (name) => name.split('.').reduce<unknown>((node, key) => (node as Record<string, unknown> | undefined)?.[key], variables),
+    )
+
+    expect(rendered).toEqual({ url: 'https://example.com/blog/hello', words: 42, byline: 'By Jane', tags: ['hello'] })
+    await expect(renderTemplates({ nested: { url: '{{missing}}' } }, async () => undefined)).rejects.toMatchObject({
+      message: 'Unknown template variable "missing"',
+      path: ['nested', 'url'],
+    })
+  })
+
+  describe('plugin', () => {
+    let dir: string
+
+    beforeAll(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mdxld-templates-'))
+      process.env.MDXLD_TEST_SITE = 'https://example.com'
+      await fs.writeFile(
+        path.join(dir, 'hello.mdx'),
+        '---\n@type: BlogPosting\n@id: "{{env.MDXLD_TEST_SITE}}/blog/{{slug}}"\nheadline: Hello\nalternativeHeadline: "{{headline}} from {{publisher}}"\n---\n\n# Hello there, world\n',
+      )
+      await fs.writeFile(path.join(dir, 'broken.mdx'), '---\ntitle: Hello\nurl: "{{nowhere}}"\n---\n')
+    })
+
+    afterAll(async () => {
+      delete process.env.MDXLD_TEST_SITE
+      await fs.rm(dir, { recursive: true, force: true })
+    })
+
+    const build = (entry: string, options: MDXLDOptions = {}) =>
+      esbuild.build({
+        entryPoints: [path.join(dir, entry)],
+        bundle: true,
+        write: false,
+        format: 'esm',
+        external: ['react/jsx-runtime'],
+        plugins: [mdxld({ templates: { publisher: 'Acme' }, ...options })],
+        logLevel: 'silent',
+      })
+
+    it('should render templates and add computed fields by type', async () => {
+      const result = await build('hello.mdx', {
+        computed: {
+          '*': (_frontmatter, { slug }) => ({ slug }),
+          BlogPosting: async (frontmatter, context) => ({
+            wordCount: context.wordCount,
+            timeRequired: context.timeRequired,
+            dateModified: await context.dateModified(),
+            url: frontmatter['@id'],
+          }),
+        },
+      })
+      const output = result.outputFiles[0].text
+      const { mtime } = await fs.stat(path.join(dir, 'hello.mdx'))
+
+      expect(output).toContain('"@id": "https://example.com/blog/hello"')
+      expect(output).toContain('"alternativeHeadline": "Hello from Acme"')
+      expect(output).toContain('"slug": "hello"')
+      expect(output).toContain('"wordCount": 3')
+      expect(output).toContain('"timeRequired": "PT1M"')
+      expect(output).toContain(`"dateModified": "${mtime.toISOString()}"`)
+      expect(output).toContain('"url": "https://example.com/blog/hello"')
+    })
+
+    it('should fail on unknown variables at their line', async () => {
+      const failure = (await build('broken.mdx').catch((error: unknown) => error)) as esbuild.BuildFailure
+
+      expect(failure.errors[0].text).toBe('Unknown template variable "nowhere"')
+      expect(failure.errors[0].location).toMatchObject({ line: 3, lineText: 'url: "{{nowhere}}"' })
+    })
+  })
+})
@@ -1,5 +1,6 @@
 import { Plugin, PluginBuild, OnLoadArgs, OnLoadResult, OnResolveArgs, OnResolveResult } from 'esbuild'
 import { vi, Mock } from 'vitest'
+import { MockResponse } from './setup'
 
 type LoadCallback = (args: OnLoadArgs) => Promise<OnLoadResult>
 type ResolveCallback = (args: OnResolveArgs) => Promise<OnResolveResult>
@@ -13,6 +14,9 @@ export interface MockWithHandlers<T extends (...args: Parameters<T>) => ReturnTy
 interface BuildStub {
   onLoad: MockWithHandlers<(options: { filter: RegExp; namespace?: string }, callback: LoadCallback) => void>
   onResolve: MockWithHandlers<(options: { filter: RegExp }, callback: ResolveCallback) => void>
+  onStart: Mock<(callback: () => Promise<void> | void) => void>
+  onEnd: Mock<(callback: (result: { errors: unknown[]; warnings: unknown[] }) => Promise<void> | void) => void>
+  onDispose: Mock<(callback: () => void) => void>
   initialOptions: {
     fs?: {
       readFile: ReturnType<typeof vi.fn>
@@ -42,6 +46,9 @@ export const createBuildStub = (): BuildStub => {
   return {
     onLoad,
     onResolve,
+    onStart: vi.fn(),
+    onEnd: vi.fn(),
+    onDispose: vi.fn(),
     initialOptions: {
       fs: {
         readFile: vi.fn(),
@@ -57,3 +64,7 @@ export const setupTestPlugin = (plugin: Plugin): BuildStub => {
   plugin.setup(build as unknown as PluginBuild)
   return build
 }
+
+// Remote server response for fetch mocks, `url` is where its redirects ended
+export const remoteResponse = (body: string, init: ResponseInit = {}, url = ''): Response =>
+  Object.assign(new MockResponse(body, init), { url }) as unknown as Response
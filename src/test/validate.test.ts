@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import path from 'node:path'
+import type { Message } from 'esbuild'
+import { mdxld } from '../index'
+import { createValidator, locateYamlPath } from '../validate'
+import type { MDXLDOptions } from '../types'
+import { setupTestPlugin, MockWithHandlers } from './utils'
+import type { ExtendedOnLoadResult } from './http-import.test'
+
+describe('mdxld plugin - validation', () => {
+  const examplesDir = path.join(process.cwd(), 'examples')
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  const loadExample = async (example: string, options: MDXLDOptions) => {
+    const build = setupTestPlugin(mdxld(options))
+    const loadCallback = (build.onLoad as MockWithHandlers<typeof build.onLoad>).handlers?.get('file')
+    if (!loadCallback) throw new Error('File handler not found')
+
+    return (await loadCallback({
+      path: path.join(examplesDir, example),
+      namespace: 'file',
+      suffix: '',
+      pluginData: null,
+      with: {},
+      resolveDir: '/',
+      kind: 'entry-point',
+      importer: '',
+    })) as ExtendedOnLoadResult
+  }
+
+  it('should fail when a required property is missing', async () => {
+    const result = await loadExample('basic/at-prefix.mdx', { schemas: { BlogPosting: ['headline', 'datePublished'] } })
+
+    expect(result.contents).toBeUndefined()
+    expect(result.errors).toHaveLength(1)
+    const [error] = result.errors as Message[]
+    expect(error.text).toBe('BlogPosting is missing required property "headline"')
+    expect(error.location).toEqual({
+      file: path.join(examplesDir, 'basic/at-prefix.mdx'),
+      line: 3,
+      column: 0,
+      lineText: '@type: BlogPosting',
+    })
+  })
+
+  it('should validate nested typed nodes', async () => {
+    const result = await loadExample('complex/nested-data.mdx', { schemas: { Organization: ['url'] } })
+
+    const errors = result.errors as Message[]
+    expect(errors).toHaveLength(2)
+    expect(errors[0].text).toBe('Organization is missing required property "url"')
+    expect(errors[0].location).toMatchObject({ line: 24, column: 6, lineText: '      $type: Organization' })
+    expect(errors[1].location).toMatchObject({ line: 32, column: 6 })
+  })
+
+  it('should report JSON Schema violations at the offending property', async () => {
+    const result = await loadExample('basic/dollar-prefix.mdx', {
+      schemas: {
+        Offer: {
+          type: 'object',
+          properties: { price: { type: 'string' }, priceCurrency: { enum: ['EUR'] } },
+        },
+      },
+    })
+
+    const errors = result.errors as Message[]
+    expect(errors.map((error) => error.text)).toEqual(['Offer /price must be string', 'Offer /priceCurrency must be equal to one of the allowed values'])
+    expect(errors[0].location).toMatchObject({ line: 9, column: 2, lineText: '  price: 29.99' })
+    expect(errors[1].location).toMatchObject({ line: 10, lineText: '  priceCurrency: USD' })
+  })
+
+  it('should report violations as warnings when configured', async () => {
+    const result = await loadExample('basic/at-prefix.mdx', {
+      schemas: { BlogPosting: { type: 'object', required: ['headline'] } },
+      validationLevel: 'warning',
+    })
+
+    expect(result.errors).toBeUndefined()
+    expect(result.contents).toContain('export default function MDXContent')
+    const [warning] = result.warnings as Message[]
+    expect(warning.text).toBe('BlogPosting must have required property \'headline\' "headline"')
+    expect(warning.location).toMatchObject({ line: 3 })
+  })
+
+  it('should accept valid documents', async () => {
+    const result = await loadExample('basic/at-prefix.mdx', { schemas: { BlogPosting: ['title', 'datePublished'], Person: ['name'] } })
+
+    expect(result.errors).toBeUndefined()
+    expect(result.warnings).toBeUndefined()
+  })
+
+  it('should match prefixed type names', () => {
+    const validate = createValidator({ Person: ['name'] })
+    expect(validate({ '@type': 'schema:Person' })).toEqual([{ path: ['@type'], text: 'schema:Person is missing required property "name"' }])
+    expect(validate({ '@type': ['Thing', 'https://schema.org/Person'], name: 'Jane' })).toEqual([])
+  })
+
+  describe('locateYamlPath', () => {
+    const source = ['name: Event', 'performers:', '- name: One', '  topics:', '    - AI', '- name: Two', 'location:', '  name: Hall'].join('\n')
+
+    it('should follow mappings and sequences', () => {
+      expect(locateYamlPath(source, ['performers', 1, 'name'])).toEqual({ line: 6, column: 2, lineText: '- name: Two' })
+      expect(locateYamlPath(source, ['performers', 0, 'topics', 0])).toEqual({ line: 5, column: 4, lineText: '    - AI' })
+      expect(locateYamlPath(source, ['location', 'name'])).toEqual({ line: 8, column: 2, lineText: '  name: Hall' })
+    })
+
+    it('should fall back to the closest parent', () => {
+      expect(locateYamlPath(source, ['location', 'address'])).toEqual({ line: 7, column: 0, lineText: 'location:' })
+      expect(locateYamlPath(source, ['missing'])).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import * as esbuild from 'esbuild-wasm'
+import { PluginBuild } from 'esbuild'
+import path from 'node:path'
+import { mdxld } from '../wasm'
+import { createBuildStub, MockWithHandlers } from './utils'
+import { mockFetch } from './setup'
+import type { ExtendedOnLoadResult, HttpHandlerArgs } from './http-import.test'
+
+describe('mdxld plugin - WASM', () => {
+  const examplesDir = path.join(process.cwd(), 'examples')
+  const entryPath = path.join(examplesDir, 'basic/at-prefix.mdx')
+  const sources = new Map([[entryPath, '---\n@type: Article\ntitle: From memory\n---\n\n# Loaded without fs\n']])
+  const readFile = vi.fn(async (filePath: string) => {
+    const source = sources.get(filePath)
+    if (source === undefined) throw new Error(`ENOENT: ${filePath}`)
+    return source
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should build with esbuild-wasm using the injected reader', async () => {
+    const result = await esbuild.build({
+      entryPoints: [entryPath],
+      bundle: true,
+      write: false,
+      format: 'esm',
+      external: ['react/jsx-runtime'],
+      plugins: [mdxld({ readFile })],
+      logLevel: 'silent',
+    })
+
+    const output = result.outputFiles[0].text
+    expect(readFile).toHaveBeenCalledWith(entryPath)
+    expect(output).toContain('"Loaded without fs"')
+    expect(output).toContain('"@type": "Article"')
+    expect(output).toContain('"title": "From memory"')
+  })
+
+  it('should resolve MDX files that only exist in memory', async () => {
+    sources.set('/docs/index.mdx', "import Intro from './parts/intro.mdx'\n\n# Index\n\n<Intro />\n")
+    sources.set('/docs/parts/intro.mdx', '---\n$type: WebPageElement\n---\n\nIntro text\n')
+
+    const result = await esbuild.build({
+      entryPoints: ['/docs/index.mdx'],
+      bundle: true,
+      write: false,
+      format: 'esm',
+      external: ['react/jsx-runtime'],
+      plugins: [mdxld({ readFile })],
+      logLevel: 'silent',
+    })
+
+    const output = result.outputFiles[0].text
+    expect(readFile).toHaveBeenCalledWith('/docs/parts/intro.mdx')
+    expect(output).toContain('"Intro text"')
+    expect(output).toContain('"Index"')
+  })
+
+  it('should load collections of documents that only exist in memory', async () => {
+    sources.set(
+      '/site/index.mdx',
+      'import posts from "mdxld:collection?glob=posts/*.mdx"\n\nexport const loaded = Promise.all(posts.map((post) => post.load()))\n\n# Posts\n',
+    )
+    sources.set('/site/posts/a.mdx', '---\ntitle: First\n---\n\nFirst post\n')
+    sources.set('/site/posts/b.mdx', '---\ntitle: Second\n---\n\nSecond post\n')
+    const listFiles = async (pattern: string, cwd: string) => {
+      const matcher = new RegExp(`^${cwd}/${pattern.replace(/\./g, '\\.').replace(/\*/g, '[^/]*')}$`)
+      return [...sources.keys()].filter((file) => matcher.test(file))
+    }
+
+    const result = await esbuild.build({
+      entryPoints: ['/site/index.mdx'],
+      absWorkingDir: '/site',
+      bundle: true,
+      write: false,
+      format: 'esm',
+      external: ['react/jsx-runtime'],
+      plugins: [mdxld({ readFile, listFiles })],
+      logLevel: 'silent',
+    })
+
+    const output = result.outputFiles[0].text
+    expect(readFile).toHaveBeenCalledWith('/site/posts/a.mdx')
+    expect(output).toContain('"First post"')
+    expect(output).toContain('"Second post"')
+  })
+
+  it('should apply the prefix preference', async () => {
+    const result = await esbuild.build({
+      entryPoints: [entryPath],
+      bundle: true,
+      write: false,
+      format: 'esm',
+      external: ['react/jsx-runtime'],
+      plugins: [mdxld({ readFile, preferDollarPrefix: true })],
+      logLevel: 'silent',
+    })
+
+    expect(result.outputFiles[0].text).toContain('"$type": "Article"')
+  })
+
+  it('should report an error when no reader is given', async () => {
+    const result = await esbuild
+      .build({
+        entryPoints: [entryPath],
+        write: false,
+        plugins: [mdxld()],
+        logLevel: 'silent',
+      })
+      .catch((error: esbuild.BuildFailure) => error)
+
+    expect('errors' in result && result.errors[0].text).toBe('Failed to read file')
+  })
+
+  it('should load HTTP imports with fetch', async () => {
+    const build = createBuildStub()
+    mdxld({ readFile }).setup(build as unknown as PluginBuild)
+    const callback = (build.onLoad as MockWithHandlers<typeof build.onLoad>).handlers?.get('http-url')
+    if (!callback) throw new Error('HTTP URL handler not found')
+
+    const args: HttpHandlerArgs = {
+      path: 'https://example.com/wasm/test.mdx',
+      namespace: 'http-url',
+      suffix: '',
+      pluginData: null,
+      with: {},
+      resolveDir: '/',
+      kind: 'entry-point',
+      importer: '',
+    }
+
+    const result = (await callback(args)) as ExtendedOnLoadResult
+    expect(result.contents).toContain('"Test Content"')
+    expect(mockFetch).toHaveBeenCalledWith('https://example.com/wasm/test.mdx', expect.anything())
+    expect(readFile).not.toHaveBeenCalled()
+  })
+})
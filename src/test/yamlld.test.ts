@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { parseDocument } from '../core'
+import { parseYamlLd, YamlSyntaxError } from '../yamlld'
+
+describe('parseYamlLd', () => {
+  it('should parse @ keywords as keys at any depth', () => {
+    expect(parseYamlLd(['@context: https://schema.org', '@type: Event', 'performers:', '  - @type: Person', '    @id: "#one"'].join('\n'))).toEqual({
+      '@context': 'https://schema.org',
+      '@type': 'Event',
+      performers: [{ '@type': 'Person', '@id': '#one' }],
+    })
+  })
+
+  it('should expand inline keyword mappings under any key', () => {
+    const data = parseYamlLd(['organizer: @type: Person', '  name: Jane', 'sponsor: @type: Organization', 'items:', '  - offer: @type: Offer'].join('\n'))
+
+    expect(data).toEqual({
+      organizer: { '@type': 'Person', name: 'Jane' },
+      sponsor: { '@type': 'Organization' },
+      items: [{ offer: { '@type': 'Offer' } }],
+    })
+  })
+
+  it('should parse keywords in flow collections', () => {
+    expect(parseYamlLd('author: {@type: Person, name: Jane}\nkeywords: [@id, "@value"]')).toEqual({
+      author: { '@type': 'Person', name: 'Jane' },
+      keywords: ['@id', '@value'],
+    })
+  })
+
+  it('should leave @ inside strings, quotes, comments and block scalars alone', () => {
+    const source = [
+      'email: jane@example.com',
+      'note: ask @handle for details',
+      "quoted: '@type: Person'",
+      '# @type: Comment',
+      'body: |',
+      '  @type: Verbatim',
+      '  line two',
+    ].join('\n')
+
+    expect(parseYamlLd(source)).toEqual({
+      email: 'jane@example.com',
+      note: 'ask @handle for details',
+      quoted: '@type: Person',
+      body: '@type: Verbatim\nline two\n',
+    })
+  })
+
+  it('should report errors at their position in the original source', () => {
+    const source = ['@context: https://schema.org', 'author: @type: Person', '  name: [Jane'].join('\n')
+
+    expect(() => parseYamlLd(source, 1)).toThrow(YamlSyntaxError)
+    try {
+      parseYamlLd(source, 1)
+    } catch (error) {
+      expect(error).toMatchObject({ line: 4, lineText: '  name: [Jane' })
+    }
+  })
+
+  it('should keep parsing the example documents', async () => {
+    const examplesDir = path.join(process.cwd(), 'examples')
+    const atPrefix = parseDocument(await fs.readFile(path.join(examplesDir, 'basic/at-prefix.mdx'), 'utf8'))
+    expect(atPrefix.data).toEqual({
+      '@context': 'https://schema.org',
+      '@type': 'BlogPosting',
+      title: 'Understanding YAML-LD in MDX',
+      description: 'A simple example of using @ prefix in YAML-LD frontmatter',
+      datePublished: new Date('2024-01-15'),
+      author: { '@type': 'Person', name: 'John Doe', url: 'https://example.com/johndoe' },
+    })
+
+    const nested = parseDocument(await fs.readFile(path.join(examplesDir, 'complex/nested-data.mdx'), 'utf8'))
+    expect(nested.data).toMatchObject({
+      $type: 'Event',
+      location: { $type: 'Place', address: { $type: 'PostalAddress', postalCode: '94043' } },
+      performers: [{ affiliation: { name: 'Tech Corp' } }, { topics: ['Web Development', 'Cloud Computing'] }],
+    })
+
+    const invalid = await fs.readFile(path.join(examplesDir, 'errors/invalid-yaml.mdx'), 'utf8')
+    expect(() => parseDocument(invalid)).toThrow(YamlSyntaxError)
+  })
+})
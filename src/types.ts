@@ -1,11 +1,15 @@
 import type { OnLoadArgs, OnLoadResult, Plugin, Loader, OnResolveArgs, OnResolveResult } from 'esbuild'
+import type { CompileOptions } from '@mdx-js/mdx'
 import type { Pluggable } from 'unified'
 
-export type MDXLoader = Extract<Loader, 'mdx'>
+/**
+ * Marks remote modules that are compiled as MDX, since esbuild has no loader for them
+ */
+export type MDXLoader = 'mdx'
 
-export interface VirtualFile extends Omit<OnLoadResult, 'contents'> {
+export interface VirtualFile extends Omit<OnLoadResult, 'contents' | 'loader'> {
   contents: string | Record<string, unknown>
-  loader: MDXLoader
+  loader: Loader | MDXLoader
   watchFiles?: string[]
   path?: string
   namespace?: string
@@ -22,17 +26,290 @@ export interface ResolveArgs extends OnResolveArgs {
 
 export interface MDXOnLoadResult extends OnLoadResult {
   contents?: string
-  loader?: MDXLoader
+  loader?: Loader
   watchFiles?: string[]
   path?: string
   namespace?: string
-  errors?: { text: string }[]
 }
 
-export interface MDXLDOptions {
+/**
+ * Options forwarded to `@mdx-js/mdx` when compiling a document
+ */
+export type MDXCompileOptions = Pick<
+  CompileOptions,
+  'development' | 'jsx' | 'jsxImportSource' | 'jsxRuntime' | 'pragma' | 'pragmaFrag' | 'pragmaImportSource' | 'providerImportSource'
+>
+
+/**
+ * A JSON-LD context document, either `{ "@context": ... }` or the bare context object
+ */
+export type JsonLdContextDocument = Record<string, unknown>
+
+/**
+ * Validation rule for a `@type`: either a list of required properties or a JSON Schema
+ */
+export type TypeSchema = string[] | Record<string, unknown>
+
+/**
+ * Controls for HTTP requests made for imports and JSON-LD contexts.
+ * Host patterns are hostnames, `*.example.com` for any subdomain, or `*` for every host.
+ */
+export interface HttpOptions {
+  /** Extra request headers by host pattern, e.g. `{ 'api.example.com': { Authorization: `Bearer ${token}` } }` */
+  headers?: Record<string, Record<string, string>>
+  /** Milliseconds before a request, including its body, is aborted (default: 30000) */
+  timeout?: number
+  /** Retries after network errors, timeouts and 5xx responses (default: 2) */
+  retries?: number
+  /** Milliseconds before the first retry, doubled for each further one (default: 500) */
+  retryDelay?: number
+  /** Largest response body in bytes (default: no limit) */
+  maxResponseSize?: number
+  /** Only hosts matching one of these patterns may be requested */
+  allowHosts?: string[]
+  /** Hosts matching one of these patterns are never requested, even when allowed */
+  denyHosts?: string[]
+}
+
+/**
+ * What a `computed` function knows about a document besides its frontmatter
+ */
+export interface ComputedContext {
+  /** Path of the document, or its URL when imported over HTTP */
+  path: string
+  /** File name without extension */
+  slug: string
+  /** MDX body */
+  body: string
+  wordCount: number
+  /** Reading time at 200 words a minute as an ISO 8601 duration, e.g. `PT4M` */
+  timeRequired: string
+  /** Date of the last commit of the file, or its modification time when git does not track it */
+  dateModified: () => Promise<Date | undefined>
+}
+
+/**
+ * Computes fields to add to the frontmatter of a document
+ */
+export type ComputedFields = (frontmatter: Record<string, unknown>, context: ComputedContext) => Record<string, unknown> | Promise<Record<string, unknown>>
+
+/**
+ * Serializations of the merged graph written besides `graph.jsonld`
+ */
+export interface EmitGraphOptions {
+  /** Base IRI for relative `@id`s such as `/people/jane`, e.g. `https://example.com` */
+  base?: string
+  /** Also write the graph as N-Quads to `graph.nq` */
+  nquads?: boolean
+  /** Also write the graph as Turtle to `graph.ttl` */
+  turtle?: boolean
+}
+
+/**
+ * Contents of a module loaded by a custom resolver, with optional metadata
+ */
+export interface RemoteContent {
+  contents: string
+  /** URI relative imports in the module resolve against (default: the requested URI) */
+  url?: string
+  /** Used to pick the loader when the URI has no known extension */
+  contentType?: string
+  /** Loader for the contents, overriding the extension and `contentType` */
+  loader?: Loader | MDXLoader
+  /** Seconds the persistent cache may serve the contents without calling the resolver again */
+  maxAge?: number
+}
+
+/**
+ * Loads the module at a custom URI such as `github:org/repo/docs/intro.mdx`
+ */
+export type RemoteResolver = (uri: string) => Promise<RemoteContent | string>
+
+/**
+ * Prefix of the JSON-LD keywords in normalized frontmatter
+ */
+export type KeywordStyle = 'at' | 'dollar' | 'preserve'
+
+export interface MDXLDOptions extends MDXCompileOptions {
+  /** Same as `keywordStyle: 'dollar'` */
   preferDollarPrefix?: boolean
+  /**
+   * Spelling of JSON-LD keywords such as `@type` in `frontmatter`: `at`, `dollar`, or `preserve` to
+   * keep them as written (the default). Other keys starting with `@` or `$` are never renamed.
+   */
+  keywordStyle?: KeywordStyle
+  /** Export `jsonLdScript`, a `<script type="application/ld+json">` tag holding the canonical JSON-LD */
+  jsonLdScript?: boolean
+  /** Declare a `JsonLd` component rendering that script and place `<JsonLd />` at the top of MDX documents */
+  injectJsonLd?: boolean
+  /** Expand the JSON-LD against its `@context` and export `jsonldExpanded` and `jsonldCompacted` */
+  resolveContexts?: boolean
+  /** Context documents by URL, used instead of fetching them, e.g. an offline copy of schema.org */
+  contexts?: Record<string, JsonLdContextDocument>
+  /** Fetch contexts missing from `contexts` over HTTP (default: true) */
+  fetchContexts?: boolean
+  /** Validation rules by `@type`/`$type` name, applied to every typed node in the frontmatter */
+  schemas?: Record<string, TypeSchema>
+  /** Whether validation failures fail the build or are only reported (default: 'error') */
+  validationLevel?: 'error' | 'warning'
+  /**
+   * Globs of the documents whose `@id` nodes others can reference, e.g. `content/people/*.mdx`.
+   * References such as `author: { @id: /people/jane }` are replaced with the node's data.
+   */
+  graph?: string | string[]
+  /** Write the JSON-LD of every compiled document as one flattened `graph.jsonld` into the outdir */
+  emitGraph?: boolean | EmitGraphOptions
+  /**
+   * Replace `{{name}}` placeholders in frontmatter strings with other fields, `slug`, `path`, `wordCount`,
+   * `timeRequired`, `dateModified` or `env.NAME`. An object adds variables of its own.
+   */
+  templates?: boolean | Record<string, unknown>
+  /** Functions adding fields to the frontmatter of documents by `@type`, or of every document under `*` */
+  computed?: Record<string, ComputedFields>
+  /**
+   * Layout components by `@type` or by the name a document gives in its `layout` key, e.g.
+   * `{ Event: './layouts/EventLayout.jsx' }`. Documents render inside the default export of the
+   * module, which gets `frontmatter` and `jsonld` as props.
+   */
+  layouts?: Record<string, string>
+  /**
+   * Also export the normalized frontmatter under this name, such as `ld`, so expressions in the
+   * body can read it as `{ld.startDate}` next to `{frontmatter.startDate}`
+   */
+  frontmatterAlias?: string
+  /** Directory for the persistent cache of HTTP imports, kept across builds (Node only) */
+  cacheDir?: string
+  /** Loaders for imports starting with a scheme or prefix, e.g. `{ 'github:': loadFromGitHub }` */
+  resolvers?: Record<string, RemoteResolver>
+  /** Headers, timeouts, retries, size limits and host lists for HTTP requests */
+  http?: HttpOptions
+  /** Serve HTTP imports from the cache only and fail on a miss, without touching the network */
+  offline?: boolean
+  /** Path of a lockfile pinning the SRI hash of every HTTP import, e.g. `mdxld.lock.json` (Node only) */
+  lockfile?: string
+  /** Rewrite the lockfile from this build's HTTP imports instead of failing on changed contents */
+  updateLock?: boolean
+  /**
+   * Write TypeScript declarations typing each document's frontmatter, inferred from its values
+   * and its `schemas`: `true` for a `.d.ts` file next to every document, e.g. `post.mdx.d.ts`,
+   * or the path of a single ambient declaration file (Node only)
+   */
+  declarations?: boolean | string
   remarkPlugins?: Pluggable[]
   rehypePlugins?: Pluggable[]
 }
 
+/**
+ * Syntax of a document's frontmatter: `---` YAML, `+++` TOML, or `;;;` and ```json JSON
+ */
+export type FrontmatterFormat = 'yaml' | 'toml' | 'json'
+
+export interface ParsedDocument {
+  /** Frontmatter as written, before prefix normalization */
+  data: Record<string, unknown>
+  /** Frontmatter normalized according to the plugin options */
+  frontmatter: Record<string, unknown>
+  /** Syntax of the frontmatter, `yaml` when the document has none */
+  format: FrontmatterFormat
+  /** Raw frontmatter source, empty when the document has none */
+  source: string
+  /** MDX body with the frontmatter blanked out */
+  body: string
+}
+
+/**
+ * A cached HTTP response with the validators needed to revalidate it
+ */
+export interface HttpCacheEntry {
+  contents: string
+  contentType?: string
+  /** Loader chosen by a custom resolver */
+  loader?: Loader | MDXLoader
+  /** Final URL when the request was redirected */
+  redirectedTo?: string
+  /** `Link` header, which points at the JSON-LD version of some contexts */
+  link?: string
+  etag?: string
+  lastModified?: string
+  /** Time in milliseconds since the epoch until which the entry is used without revalidation */
+  freshUntil: number
+}
+
+/**
+ * Storage for cached HTTP responses by URL
+ */
+export interface HttpCacheStore {
+  get(url: string): Promise<HttpCacheEntry | undefined>
+  set(url: string, entry: HttpCacheEntry): Promise<void>
+}
+
+/**
+ * Pins the contents of HTTP imports across builds
+ */
+export interface RemoteImportLock {
+  /** Reads the pinned hashes, called when a build starts */
+  load(): Promise<void>
+  /** Fails when contents differ from the pinned hash and pins imports seen for the first time */
+  verify(url: string, resolvedUrl: string, contents: string): Promise<void>
+  /** Writes the lockfile when the build changed it */
+  save(): Promise<void>
+}
+
+/**
+ * Keeps TypeScript declarations for the documents a build compiles
+ */
+export interface DeclarationWriter {
+  /** Forgets the documents of the previous build, called when a build starts */
+  start(): void
+  /** Records the inferred frontmatter type of a local document */
+  write(filePath: string, frontmatterType: string): Promise<void>
+  /** Writes out what changed, called when a build ends */
+  flush(): Promise<void>
+}
+
+/**
+ * Storage backends an entry point gives the plugin beyond reading sources
+ */
+export interface PluginStorage {
+  httpCache?: HttpCacheStore
+  lock?: RemoteImportLock
+  declarations?: DeclarationWriter
+  listFiles?: ListFiles
+  writeFile?: WriteFile
+  fileModified?: FileModified
+}
+
+/**
+ * Reads a source file as UTF-8 text
+ */
+export type ReadFile = (path: string) => Promise<string>
+
+/**
+ * Writes a text file, creating its directory
+ */
+export type WriteFile = (path: string, contents: string) => Promise<void>
+
+/**
+ * Finds when a file last changed, undefined when it cannot tell
+ */
+export type FileModified = (path: string) => Promise<Date | undefined>
+
+/**
+ * Lists the absolute paths of the files matching a glob relative to `cwd`
+ */
+export type ListFiles = (pattern: string, cwd: string) => Promise<string[]>
+
+export interface MDXLDWasmOptions extends MDXLDOptions {
+  /** Reads MDX sources, since esbuild-wasm in the browser has no file system */
+  readFile?: ReadFile
+  /** Persistent cache for HTTP imports, e.g. backed by IndexedDB, since `cacheDir` needs a file system */
+  httpCache?: HttpCacheStore
+  /** Lists the documents of `mdxld:collection` imports, which need one in the browser too */
+  listFiles?: ListFiles
+  /** Writes the files of the `emitGraph` option when the build writes to disk */
+  writeFile?: WriteFile
+  /** Dates documents for the `dateModified` of templates and computed fields */
+  fileModified?: FileModified
+}
+
 export type { Plugin, OnResolveResult }
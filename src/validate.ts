@@ -0,0 +1,158 @@
+import Ajv, { ValidateFunction } from 'ajv'
+import { isObject, toJsonData } from './frontmatter.js'
+import { TypeSchema } from './types.js'
+
+export type DataPath = (string | number)[]
+
+export interface ValidationIssue {
+  /** Path of the offending value, or of the node missing a property */
+  path: DataPath
+  text: string
+}
+
+export interface SourceLocation {
+  /** 1-based line within the YAML source */
+  line: number
+  /** 0-based column */
+  column: number
+  lineText: string
+}
+
+export type FrontmatterValidator = (data: Record<string, unknown>) => ValidationIssue[]
+
+function typeKey(node: Record<string, unknown>): string | undefined {
+  return ['@type', '$type'].find((key) => node[key] !== undefined)
+}
+
+function nodeTypes(node: Record<string, unknown>, key: string): string[] {
+  const type = node[key]
+  return (Array.isArray(type) ? type : [type]).filter((value): value is string => typeof value === 'string')
+}
+
+// Lets `schema:BlogPosting` or `https://schema.org/BlogPosting` match a `BlogPosting` rule
+export function localName(type: string): string {
+  return type.replace(/^.*[/#:]/, '')
+}
+
+function pointerToPath(pointer: string): DataPath {
+  return pointer
+    .split('/')
+    .slice(1)
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .map((segment) => (/^\d+$/.test(segment) ? Number(segment) : segment))
+}
+
+/**
+ * Creates a validator that checks every node with a `@type` or `$type` against
+ * the rule registered for that type: a list of required properties or a JSON Schema
+ */
+export function createValidator(schemas: Record<string, TypeSchema>): FrontmatterValidator {
+  const ajv = new Ajv({ allErrors: true, strict: false })
+  const validators = new Map<string, string[] | ValidateFunction>()
+  for (const [type, schema] of Object.entries(schemas)) {
+    validators.set(type, Array.isArray(schema) ? schema : ajv.compile(schema))
+  }
+
+  function findRule(types: string[]): [string, string[] | ValidateFunction] | undefined {
+    for (const type of types) {
+      const rule = validators.get(type) ?? validators.get(localName(type))
+      if (rule) {
+        return [type, rule]
+      }
+    }
+    return undefined
+  }
+
+  function validateNode(node: Record<string, unknown>, path: DataPath, issues: ValidationIssue[]): void {
+    const typeProperty = typeKey(node)
+    const match = typeProperty ? findRule(nodeTypes(node, typeProperty)) : undefined
+    if (typeProperty && match) {
+      const [type, rule] = match
+      // Problems with the node as a whole are reported at its type declaration
+      const typePath = [...path, typeProperty]
+      if (Array.isArray(rule)) {
+        for (const property of rule) {
+          if (node[property] === undefined) {
+            issues.push({ path: typePath, text: `${type} is missing required property "${property}"` })
+          }
+        }
+      } else if (!rule(node)) {
+        for (const error of rule.errors ?? []) {
+          const errorPath = error.instancePath ? [...path, ...pointerToPath(error.instancePath)] : typePath
+          const property = error.keyword === 'required' ? ` "${String(error.params.missingProperty)}"` : ''
+          issues.push({ path: errorPath, text: `${type}${error.instancePath ? ` ${error.instancePath}` : ''} ${error.message ?? 'is invalid'}${property}` })
+        }
+      }
+    }
+
+    for (const [key, value] of Object.entries(node)) {
+      const children = Array.isArray(value) ? value : [value]
+      children.forEach((child, index) => {
+        if (isObject(child)) {
+          validateNode(child, Array.isArray(value) ? [...path, key, index] : [...path, key], issues)
+        }
+      })
+    }
+  }
+
+  return (data) => {
+    const issues: ValidationIssue[] = []
+    validateNode(toJsonData(data), [], issues)
+    return issues
+  }
+}
+
+/**
+ * Finds the line of a data path in block-style YAML by following indentation.
+ * Stops at the deepest segment it can find, so the location is always close.
+ */
+export function locateYamlPath(source: string, path: DataPath): SourceLocation | undefined {
+  const lines = source.split('\n')
+  // Working copy where entered sequence items have their dash blanked so they read as mappings
+  const working = [...lines]
+  const indentOf = (line: string) => line.length - line.trimStart().length
+  const isContent = (line: string) => line.trim() !== '' && !line.trimStart().startsWith('#')
+  const isSequenceItem = (line: string) => /^\s*-(\s|$)/.test(line)
+  const keyOf = (line: string) => line.trimStart().match(/^(["']?)(.+?)\1\s*:(\s|$)/)?.[2]
+  // YAML allows a key's sequence items at the key's own indentation
+  const isNestedSequence = (line: string, segment: string | number, indent: number) =>
+    typeof segment === 'string' && indentOf(line) === indent && isSequenceItem(line)
+
+  let start = 0
+  let end = working.length
+  let location: SourceLocation | undefined
+
+  for (const segment of path) {
+    const first = working.slice(start, end).findIndex(isContent)
+    if (first === -1) break
+    const childIndent = indentOf(working[start + first])
+
+    let found = -1
+    let seen = 0
+    for (let i = start + first; i < end; i++) {
+      const line = working[i]
+      if (!isContent(line) || indentOf(line) !== childIndent) continue
+      if (typeof segment === 'number' ? isSequenceItem(line) && seen++ === segment : keyOf(line) === segment) {
+        found = i
+        break
+      }
+    }
+    if (found === -1) break
+
+    location = { line: found + 1, column: childIndent, lineText: lines[found] }
+    let next = found + 1
+    while (next < end && (!isContent(working[next]) || indentOf(working[next]) > childIndent || isNestedSequence(working[next], segment, childIndent))) {
+      next++
+    }
+
+    if (typeof segment === 'number') {
+      working[found] = working[found].replace(/^(\s*)-/, '$1 ')
+      start = found
+    } else {
+      start = found + 1
+    }
+    end = next
+  }
+
+  return location
+}
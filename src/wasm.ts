@@ -0,0 +1,34 @@
+import { PluginBuild } from 'esbuild'
+import { createPlugin } from './core.js'
+import { joinPath } from './paths.js'
+import { MDXLDWasmOptions, Plugin, ReadFile, ResolveArgs, OnResolveResult } from './types.js'
+
+const missingReadFile: ReadFile = async (path) => {
+  throw new Error(`No readFile option given to esbuild-mdxld/wasm, cannot read ${path}`)
+}
+
+export const mdxld = (options?: MDXLDWasmOptions): Plugin => {
+  const { readFile = missingReadFile, httpCache, listFiles, writeFile, fileModified, ...pluginOptions } = options ?? {}
+  const plugin = createPlugin(readFile, pluginOptions, { httpCache, listFiles, writeFile, fileModified })
+
+  return {
+    name: plugin.name,
+    setup(build: PluginBuild) {
+      plugin.setup(build)
+
+      // Registered after the core resolvers so remote URLs keep their own namespace. Collections
+      // import their documents by absolute path, which the file system cannot resolve in the browser.
+      build.onResolve({ filter: /\.(?:mdx?|yamlld|yaml-ld|jsonld)$/ }, (args: ResolveArgs): OnResolveResult | undefined => {
+        if (args.namespace !== 'file' && args.namespace !== 'mdxld-collection' && args.kind !== 'entry-point') {
+          return undefined
+        }
+        return {
+          path: joinPath(args.resolveDir || '/', args.path),
+          namespace: 'file',
+        }
+      })
+    },
+  }
+}
+
+export default mdxld
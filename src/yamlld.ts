@@ -0,0 +1,181 @@
+import yaml from 'js-yaml'
+import { CST, Lexer } from 'yaml'
+
+/**
+ * A frontmatter syntax error located in the source document
+ */
+export class YamlSyntaxError extends Error {
+  constructor(
+    message: string,
+    /** 1-based line within the document */
+    readonly line: number,
+    /** 0-based column */
+    readonly column: number,
+    readonly lineText: string,
+  ) {
+    super(message)
+    this.name = 'YamlSyntaxError'
+  }
+}
+
+/**
+ * A `!include path` tag, replaced with the data of the file it names once that is read
+ */
+export class YamlInclude {
+  constructor(readonly path: string) {}
+}
+
+const YAML_LD_SCHEMA = yaml.DEFAULT_SCHEMA.extend([
+  new yaml.Type('!include', {
+    kind: 'scalar',
+    resolve: (data: unknown) => typeof data === 'string' && data.trim() !== '',
+    construct: (data: string) => new YamlInclude(data.trim()),
+  }),
+])
+
+interface Token {
+  type: ReturnType<typeof CST.tokenType> | 'plain-scalar'
+  source: string
+  offset: number
+}
+
+// An insertion made while rewriting, in the coordinates of the text it was made in
+interface Edit {
+  offset: number
+  length: number
+}
+
+/**
+ * YAML-LD source rewritten into plain YAML, with the edits needed to map positions back
+ */
+class Rewrite {
+  readonly edits: Edit[] = []
+
+  constructor(public text: string) {}
+
+  insert(offset: number, value: string): void {
+    this.text = this.text.slice(0, offset) + value + this.text.slice(offset)
+    this.edits.push({ offset, length: value.length })
+  }
+
+  // Undo the edits newest first, positions inside inserted text map to where it was inserted
+  originalOffset(offset: number): number {
+    return this.edits.reduceRight((position, edit) => {
+      if (position >= edit.offset + edit.length) return position - edit.length
+      return Math.min(position, edit.offset)
+    }, offset)
+  }
+}
+
+// The lexer marks plain and block scalars with a control token and leaves other control tokens in
+// the stream without a source position, so rebuild offsets and tell the two scalar kinds apart
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let offset = 0
+  let afterScalarMarker = false
+  let blockScalar = false
+
+  for (const lexeme of new Lexer().lex(source)) {
+    if (lexeme === CST.SCALAR) {
+      afterScalarMarker = true
+      continue
+    }
+    if (lexeme === CST.DOCUMENT || lexeme === CST.FLOW_END) {
+      continue
+    }
+
+    const type = afterScalarMarker && !blockScalar ? 'plain-scalar' : CST.tokenType(lexeme)
+    if (type === 'block-scalar-header') blockScalar = true
+    else if (afterScalarMarker) blockScalar = false
+    afterScalarMarker = false
+
+    tokens.push({ type, source: lexeme, offset })
+    offset += lexeme.length
+  }
+  return tokens
+}
+
+const isKeyword = (token: Token | undefined) => token?.type === 'plain-scalar' && token.source.startsWith('@')
+
+/**
+ * Finds a keyword key on the same line as its parent key, as in `author: @type: Person`,
+ * and returns where the nested mapping starts along with the parent key's column
+ */
+function findCompactMapping(tokens: Token[]): { offset: number; column: number } | undefined {
+  let lineStart = 0
+  let flowDepth = 0
+  let line: Token[] = []
+
+  for (const token of tokens) {
+    if (token.type === 'newline') {
+      lineStart = token.offset + token.source.length
+      line = []
+      continue
+    }
+    if (token.type === 'flow-map-start' || token.type === 'flow-seq-start') flowDepth++
+    if (token.type === 'flow-map-end' || token.type === 'flow-seq-end') flowDepth--
+    if (token.type === 'space' || token.type === 'comment') continue
+    line.push(token)
+
+    // key, `:`, @keyword, `:`
+    const [key, separator, keyword, indicator] = line.slice(-4)
+    if (flowDepth === 0 && indicator?.type === 'map-value-ind' && isKeyword(keyword) && separator.type === 'map-value-ind' && key.type !== 'map-value-ind') {
+      return { offset: keyword.offset, column: key.offset - lineStart }
+    }
+  }
+  return undefined
+}
+
+// YAML reserves `@` at the start of plain scalars, so quote every scalar that starts with one.
+// Double quotes fold line breaks the same way plain scalars do, so multi-line values keep their meaning.
+function quoteKeywords(rewrite: Rewrite): void {
+  const keywords = tokenize(rewrite.text).filter(isKeyword)
+  for (const token of keywords.reverse()) {
+    rewrite.insert(token.offset + token.source.length, '"')
+    for (let i = token.source.length - 1; i >= 0; i--) {
+      if (token.source[i] === '"' || token.source[i] === '\\') {
+        rewrite.insert(token.offset + i, '\\')
+      }
+    }
+    rewrite.insert(token.offset, '"')
+  }
+}
+
+function toYaml(source: string): Rewrite {
+  const rewrite = new Rewrite(source)
+  // Each pass moves one compact mapping onto its own line, nested ones are found on the next pass
+  for (let compact = findCompactMapping(tokenize(rewrite.text)); compact; compact = findCompactMapping(tokenize(rewrite.text))) {
+    rewrite.insert(compact.offset, `\n${' '.repeat(compact.column + 2)}`)
+  }
+  quoteKeywords(rewrite)
+  return rewrite
+}
+
+function syntaxError(error: unknown, source: string, rewrite: Rewrite, lineOffset: number): YamlSyntaxError {
+  const reason = error instanceof yaml.YAMLException ? error.reason : error instanceof Error ? error.message : String(error)
+  const offset = error instanceof yaml.YAMLException && error.mark ? Math.min(rewrite.originalOffset(error.mark.position), source.length) : 0
+  const lineStart = offset > 0 ? source.lastIndexOf('\n', offset - 1) + 1 : 0
+  const lineEnd = source.indexOf('\n', offset)
+  const line = source.slice(0, lineStart).split('\n').length
+  return new YamlSyntaxError(reason, lineOffset + line, offset - lineStart, source.slice(lineStart, lineEnd === -1 ? undefined : lineEnd))
+}
+
+/**
+ * Parses YAML-LD, YAML that may use `@` keywords such as `@type` as keys and values
+ * anywhere, including inline mappings like `author: @type: Person`. `!include` tags become
+ * `YamlInclude` values.
+ * `lineOffset` is the number of document lines before the YAML source, used in errors.
+ */
+export function parseYamlLd(source: string, lineOffset = 0): Record<string, unknown> {
+  const rewrite = toYaml(source)
+  let parsed: unknown
+  try {
+    parsed = yaml.load(rewrite.text, { schema: YAML_LD_SCHEMA })
+  } catch (error) {
+    throw syntaxError(error, source, rewrite, lineOffset)
+  }
+  if (typeof parsed !== 'object' || parsed === null) {
+    throw new YamlSyntaxError('Invalid YAML: must be an object', lineOffset + 1, 0, source.split('\n')[0])
+  }
+  return parsed as Record<string, unknown>
+}